@@ -36,6 +36,8 @@ test.describe('Page Load & Initial State', () => {
         await expect(page.locator('text=Projektname')).toBeVisible();
         await expect(page.locator('text=Grundstücksfläche')).toBeVisible();
         await expect(page.locator('text=Versiegelte Fläche')).toBeVisible();
+        await expect(page.locator('label:has-text("Breitengrad")')).toBeVisible();
+        await expect(page.locator('label:has-text("Längengrad")')).toBeVisible();
 
         // Geotechnik section
         await expect(page.locator('.copilot-section-title:has-text("Geotechnik")')).toBeVisible();
@@ -43,6 +45,11 @@ test.describe('Page Load & Initial State', () => {
         await expect(page.locator('label:has-text("Geländeneigung")')).toBeVisible();
         await expect(page.locator('label:has-text("Fließweglänge")')).toBeVisible();
         await expect(page.locator('label:has-text("Manning-Rauheitsbeiwert")')).toBeVisible();
+
+        // Entwässerung section
+        await expect(page.locator('.copilot-section-title:has-text("Entwässerung")')).toBeVisible();
+        await expect(page.locator('label:has-text("Drosselabfluss")')).toBeVisible();
+        await expect(page.locator('label:has-text("Schadlos überflutbares Volumen")')).toBeVisible();
     });
 
     test('displays default values in input fields', async ({ page }) => {
@@ -114,6 +121,7 @@ test.describe('Happy Path: Standard Calculation', () => {
         await page.locator('#calculate-btn').click();
 
         await expect(page.locator('.copilot-metric-label:has-text("Abflussbeiwert")')).toBeVisible();
+        await expect(page.locator('.copilot-metric-card:has-text("Abflussbeiwert") .copilot-metric-sub')).toContainText('C_m');
         await expect(page.locator('.copilot-metric-label:has-text("Bemessungsregen")')).toBeVisible();
         await expect(page.locator('.copilot-metric-label:has-text("Rückhaltevolumen")')).toBeVisible();
         await expect(page.locator('.copilot-metric-label:has-text("Spitzenabfluss (Rational)")')).toBeVisible();
@@ -143,6 +151,50 @@ test.describe('Happy Path: Standard Calculation', () => {
         await expect(page.locator('.copilot-comparison-bar-fill.pinn')).toBeVisible();
     });
 
+    test('states which method produced the reported kinematic peak', async ({ page }) => {
+        await page.goto('/');
+        await page.locator('#calculate-btn').click();
+
+        // Default storm lies outside the training envelope — analytical value is reported
+        const method = page.locator('#peak-method');
+        await expect(method).toContainText('Angesetzt:');
+        await expect(method).toContainText('Kinematische Welle (analytisch)');
+        await expect(page.locator('#calculate-btn')).toBeEnabled();
+    });
+
+    test('shows the duration scan with the governing duration highlighted', async ({ page }) => {
+        await page.goto('/');
+        await page.locator('#calculate-btn').click();
+
+        await expect(page.locator('text=Dauerstufen')).toBeVisible();
+        await expect(page.locator('.copilot-table tbody tr')).toHaveCount(16);
+        await expect(page.locator('.copilot-table tr.governing')).toHaveCount(1);
+    });
+
+    test('plots the kinematic wave hydrograph for the governing duration', async ({ page }) => {
+        await page.goto('/');
+        await page.locator('#calculate-btn').click();
+
+        await expect(page.locator('#hydrograph svg polyline.discharge')).toBeVisible();
+        await expect(page.locator('#hydrograph svg line.throttle')).toHaveCount(1);
+        await expect(page.locator('#hydrograph')).toContainText('Speicherbedarf');
+        await expect(page.locator('#hydrograph')).not.toContainText('NaN');
+    });
+
+    test('shows an Euler Typ II design storm and switches to block rain', async ({ page }) => {
+        await page.goto('/');
+        await page.locator('#calculate-btn').click();
+
+        const storm = page.locator('#design-storm');
+        await expect(storm.locator('#hyetograph-type')).toHaveValue('euler2');
+        await expect(storm.locator('rect.rain-block')).toHaveCount(12);
+
+        await storm.locator('#hyetograph-type').selectOption('block');
+        await storm.locator('#hyetograph-duration').selectOption('120');
+        await expect(storm.locator('rect.rain-block')).toHaveCount(24);
+        await expect(storm).not.toContainText('NaN');
+    });
+
     test('displays T=100a for default 70% impervious area', async ({ page }) => {
         await page.goto('/');
         await page.locator('#calculate-btn').click();
@@ -343,6 +395,18 @@ test.describe('Edge Cases: Boundary Values', () => {
         await expect(page.locator('.copilot-status-banner')).toBeVisible();
     });
 
+    test('explains why the PINN is not used outside its training envelope', async ({ page }) => {
+        await page.goto('/');
+        await page.locator('#calculate-btn').click();
+
+        // Berlin T=30, D=5 min: r ≈ 364 mm/h exceeds the 250 mm/h training range
+        const hint = page.locator('#pinn-ood');
+        await expect(hint).toBeVisible();
+        await expect(hint).toContainText('Regenspende');
+        await expect(hint).toContainText('außerhalb des Trainingsbereichs');
+        await expect(hint).toContainText('analytische kinematische Welle');
+    });
+
     test('handles minimum Manning n (0.01)', async ({ page }) => {
         await page.goto('/');
         await page.locator('#manning-n').fill('0.01');
@@ -360,6 +424,50 @@ test.describe('Edge Cases: Boundary Values', () => {
     });
 });
 
+test.describe('Überflutungsvolumen (DIN 1986-100 Gl. 20)', () => {
+    test('fails the Nachweis when no on-site volume is available', async ({ page }) => {
+        await page.goto('/');
+        await page.locator('#available-volume').fill('0');
+        await page.locator('#calculate-btn').click();
+
+        await expect(page.locator('.copilot-status-banner.fail')).toBeVisible();
+        await expect(page.locator('.copilot-recommendations')).toContainText('V_Rück');
+    });
+
+    test('passes when the throttle outflow carries the full design rain', async ({ page }) => {
+        await page.goto('/');
+        await page.locator('#throttle-outflow').fill('1000');
+        await page.locator('#available-volume').fill('0');
+        await page.locator('#calculate-btn').click();
+
+        await expect(page.locator('.copilot-status-banner.pass')).toBeVisible();
+        await expect(page.locator('.copilot-metric-card:has-text("Rückhaltevolumen") .copilot-metric-value')).toContainText('0.0');
+    });
+});
+
+test.describe('Regenrückhalteraum (DWA-A 117)', () => {
+    test('sizes the retention basin for the default 10 L/(s·ha) throttle rate', async ({ page }) => {
+        await page.goto('/');
+        await expect(page.locator('#throttle-rate')).toHaveValue('10');
+        await page.locator('#calculate-btn').click();
+
+        const basin = page.locator('#retention-basin');
+        await expect(basin).toBeVisible();
+        await expect(basin).toContainText('2.0 L/s');
+        await expect(basin.locator('tr.governing')).toContainText('m³');
+        await expect(basin).not.toContainText('NaN');
+    });
+
+    test('hides the retention basin when no throttle rate is set', async ({ page }) => {
+        await page.goto('/');
+        await page.locator('#throttle-rate').fill('0');
+        await page.locator('#calculate-btn').click();
+
+        await expect(page.locator('.copilot-metric-card').first()).toBeVisible();
+        await expect(page.locator('#retention-basin')).toHaveCount(0);
+    });
+});
+
 // ============================================================
 // 5. EDGE CASES: ZERO AND NEAR-ZERO VALUES
 // ============================================================
@@ -443,6 +551,54 @@ test.describe('Soil Type Selection', () => {
     }
 });
 
+test.describe('Infiltration Check (DWA-A 138)', () => {
+    test('rejects infiltration for clay (TM)', async ({ page }) => {
+        await page.goto('/');
+        await page.locator('#soil-type').selectOption('TM');
+        await page.locator('#calculate-btn').click();
+
+        await expect(page.locator('#infiltration-check .copilot-verdict.fail')).toContainText('nicht zulässig');
+        await expect(page.locator('.copilot-recommendations')).toContainText('Versickerung nicht zulässig');
+    });
+
+    test('approves infiltration and sizes a swale for gravel (GW)', async ({ page }) => {
+        await page.goto('/');
+        await page.locator('#soil-type').selectOption('GW');
+        await page.locator('#calculate-btn').click();
+
+        await expect(page.locator('#infiltration-check .copilot-verdict.pass')).toContainText('zulässig');
+        await expect(page.locator('#infiltration-check')).toContainText('Mulde');
+        await expect(page.locator('#infiltration-check')).toContainText('m³');
+    });
+
+    test('sizes user-defined swale and trench systems', async ({ page }) => {
+        await page.goto('/');
+        await page.locator('#soil-type').selectOption('SE');
+
+        await page.locator('#add-infiltration').click();
+        await page.locator('#add-infiltration').click();
+        await page.locator('.copilot-surface-row .infiltration-type').nth(1).selectOption('rigole');
+        await page.locator('.copilot-surface-row .infiltration-area').nth(1).fill('500');
+        await page.locator('#calculate-btn').click();
+
+        const rows = page.locator('#infiltration-systems tbody tr');
+        await expect(rows).toHaveCount(2);
+        await expect(rows.nth(0)).toContainText('Mulde');
+        await expect(rows.nth(1)).toContainText('Rigole');
+        await expect(rows.nth(1)).toContainText('500');
+        await expect(page.locator('#infiltration-systems')).not.toContainText('NaN');
+    });
+
+    test('does not size systems where infiltration is not permitted', async ({ page }) => {
+        await page.goto('/');
+        await page.locator('#soil-type').selectOption('TL');
+        await page.locator('#add-infiltration').click();
+        await page.locator('#calculate-btn').click();
+
+        await expect(page.locator('#infiltration-systems')).toContainText('nicht bemessen');
+    });
+});
+
 // ============================================================
 // 7. PDF EXPORT
 // ============================================================
@@ -502,6 +658,19 @@ test.describe('Recalculation', () => {
         await expect(page.locator('.copilot-metric-card')).toHaveCount(6);
     });
 
+    test('runs in the engine worker and clears the progress when done', async ({ page }) => {
+        await page.goto('/');
+        await page.locator('#calculate-btn').click();
+
+        await expect(page.locator('.copilot-status-banner')).toBeVisible();
+        await expect(page.locator('#calc-progress')).toHaveCount(0);
+        await expect(page.locator('#calculate-btn')).toBeEnabled();
+
+        // Form stays editable after the run
+        await page.locator('#slope').fill('3');
+        await expect(page.locator('#slope')).toHaveValue('3');
+    });
+
     test('switching from above to below threshold updates UI correctly', async ({ page }) => {
         await page.goto('/');
 
@@ -555,3 +724,98 @@ test.describe('Visual & Layout', () => {
         expect(fontFamily.toLowerCase()).toContain('jetbrains');
     });
 });
+
+// ============================================================
+// 10. STANDORT & KOSTRA-DWD
+// ============================================================
+
+test.describe('Site Location & KOSTRA-DWD', () => {
+    test('uses the Berlin KOSTRA cell for default coordinates', async ({ page }) => {
+        await page.goto('/');
+        await expect(page.locator('#latitude')).toHaveValue('52.52');
+        await expect(page.locator('#longitude')).toHaveValue('13.405');
+
+        await page.locator('#calculate-btn').click();
+        await expect(page.locator('.copilot-metric-card:has-text("Bemessungsregen")')).toContainText('Rasterfeld');
+    });
+
+    test('calculates with Hamburg coordinates', async ({ page }) => {
+        await page.goto('/');
+        await page.locator('#latitude').fill('53.55');
+        await page.locator('#longitude').fill('9.99');
+        await page.locator('#calculate-btn').click();
+
+        await expect(page.locator('.copilot-status-banner')).toBeVisible();
+        await expect(page.locator('.copilot-metric-card')).toHaveCount(6);
+    });
+
+    test('shows an error for coordinates outside the available grid', async ({ page }) => {
+        await page.goto('/');
+        await page.locator('#latitude').fill('47.0');
+        await page.locator('#longitude').fill('6.0');
+        await page.locator('#calculate-btn').click();
+
+        await expect(page.locator('.copilot-status-banner.fail')).toContainText('KOSTRA');
+        await expect(page.locator('#export-pdf')).not.toBeVisible();
+    });
+});
+
+// ============================================================
+// 11. TEILFLÄCHEN (DIN 1986-100 TABELLE 9)
+// ============================================================
+
+test.describe('Sub-Areas (Tabelle 9)', () => {
+    test('shows the default two-surface breakdown after calculation', async ({ page }) => {
+        await page.goto('/');
+        await page.locator('#calculate-btn').click();
+
+        await expect(page.locator('text=Flächenaufteilung')).toBeVisible();
+        await expect(page.locator('.copilot-comparison:has-text("Flächenaufteilung") tbody tr')).toHaveCount(3);
+    });
+
+    test('derives total and sealed area from added sub-areas', async ({ page }) => {
+        await page.goto('/');
+
+        await page.locator('#add-surface').click();
+        await page.locator('.copilot-surface-row .surface-area').nth(0).fill('900');
+        await page.locator('#add-surface').click();
+        await page.locator('.copilot-surface-row .surface-type').nth(1).selectOption('gruenflaeche');
+        await page.locator('.copilot-surface-row .surface-area').nth(1).fill('300');
+
+        await expect(page.locator('#total-area')).toHaveValue('1200');
+        await expect(page.locator('#impervious-area')).toHaveValue('900');
+        await expect(page.locator('text=Versiegelungsgrad: 75%')).toBeVisible();
+
+        await page.locator('#calculate-btn').click();
+        await expect(page.locator('.copilot-comparison:has-text("Flächenaufteilung") tbody tr')).toHaveCount(3);
+    });
+
+    test('blocks the calculation while the sub-areas add up to 0 m²', async ({ page }) => {
+        await page.goto('/');
+
+        await page.locator('#add-surface').click();
+        await expect(page.locator('#total-area')).toHaveValue('0');
+        await expect(page.locator('#calculate-btn')).toBeDisabled();
+        await expect(page.locator('#area-hint')).toBeVisible();
+
+        await page.locator('.copilot-surface-row .surface-area').nth(0).fill('900');
+        await expect(page.locator('#calculate-btn')).toBeEnabled();
+    });
+
+    test('labels sub-areas and keeps green roofs out of the sealed area', async ({ page }) => {
+        await page.goto('/');
+
+        await page.locator('#add-surface').click();
+        await page.locator('.copilot-surface-row .surface-name').nth(0).fill('Dach Halle A');
+        await page.locator('.copilot-surface-row .surface-area').nth(0).fill('900');
+        await page.locator('#add-surface').click();
+        await page.locator('.copilot-surface-row .surface-type').nth(1).selectOption('extensivbegruenunng');
+        await page.locator('.copilot-surface-row .surface-area').nth(1).fill('600');
+
+        await expect(page.locator('#total-area')).toHaveValue('1500');
+        await expect(page.locator('#impervious-area')).toHaveValue('900');
+
+        await page.locator('#calculate-btn').click();
+        await expect(page.locator('.copilot-comparison:has-text("Flächenaufteilung")')).toContainText('Dach Halle A');
+    });
+});
@@ -0,0 +1,150 @@
+/**
+ * Headless PINN benchmark (Node, CPU backend)
+ *
+ * Usage: npm run benchmark:pinn -- [--model public/models/pinn_runoff] [--out benchmark]
+ *                                   [--baseline public/models/pinn_runoff]
+ *                                   [--max-mape 10] [--max-rmse 10] [--max-regression 5]
+ *                                   [--max-fallbacks 0] [--record]
+ *
+ * Evaluates the model on a held-out grid over its own training ranges and
+ * compares it against the benchmark metrics recorded in the manifest of the
+ * shipped model (--baseline). Writes benchmark.json and benchmark.html and
+ * exits with code 1 if the model misses a threshold, leaves more grid points
+ * (%) than --max-fallbacks to the analytical fallback or is worse than the
+ * shipped model, so CI can block shipping it. With --record, a passing model
+ * gets its metrics written to its manifest and becomes the next baseline.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import { MANIFEST_FILE, type PINNManifest } from '../src/ml/pinnManifest';
+import { setModel } from '../src/ml/modelRegistry';
+import {
+    runPINNBenchmark,
+    DEFAULT_BENCHMARK_THRESHOLDS,
+    type BenchmarkBaseline,
+    type ErrorMetrics,
+} from '../src/ml/pinnBenchmark';
+import { renderBenchmarkHtml } from '../src/ml/benchmarkReport';
+
+interface CliOptions {
+    model: string;
+    out: string;
+    baseline: string;
+    maxMape: number;
+    maxRmse: number;
+    maxRegression: number;
+    maxFallbacks: number;
+    record: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+    const value = (flag: string) => {
+        const i = argv.indexOf(flag);
+        return i >= 0 ? argv[i + 1] : undefined;
+    };
+    return {
+        model: value('--model') ?? 'public/models/pinn_runoff',
+        out: value('--out') ?? 'benchmark',
+        baseline: value('--baseline') ?? 'public/models/pinn_runoff',
+        maxMape: Number(value('--max-mape') ?? DEFAULT_BENCHMARK_THRESHOLDS.mape),
+        maxRmse: Number(value('--max-rmse') ?? DEFAULT_BENCHMARK_THRESHOLDS.rmse),
+        maxRegression: Number(value('--max-regression') ?? DEFAULT_BENCHMARK_THRESHOLDS.regression * 100),
+        maxFallbacks: Number(value('--max-fallbacks') ?? DEFAULT_BENCHMARK_THRESHOLDS.fallbacks),
+        record: argv.includes('--record'),
+    };
+}
+
+/**
+ * Load a model written by train-pinn (model.json + weights) from disk
+ */
+async function loadModelFromDisk(dir: string): Promise<tf.LayersModel> {
+    const modelJson = JSON.parse(await readFile(join(dir, 'model.json'), 'utf8')) as tf.io.ModelJSON;
+    const weights = await Promise.all(modelJson.weightsManifest.flatMap(group => group.paths)
+        .map(path => readFile(join(dir, path))));
+    const weightData = new Uint8Array(Buffer.concat(weights)).buffer;
+
+    return tf.loadLayersModel(tf.io.fromMemory({
+        modelTopology: modelJson.modelTopology,
+        weightSpecs: modelJson.weightsManifest.flatMap(group => group.weights),
+        weightData,
+    }));
+}
+
+async function readManifest(dir: string): Promise<PINNManifest> {
+    return JSON.parse(await readFile(join(dir, MANIFEST_FILE), 'utf8')) as PINNManifest;
+}
+
+/**
+ * Benchmark metrics recorded for the shipped model, null if none are recorded
+ */
+async function loadBaseline(dir: string): Promise<BenchmarkBaseline | null> {
+    const manifest = await readManifest(dir).catch(() => null);
+    if (!manifest?.benchmark) return null;
+    return {
+        modelVersion: manifest.modelVersion,
+        analytical: restoreNaN(manifest.benchmark.analytical),
+        numerical: restoreNaN(manifest.benchmark.numerical),
+    };
+}
+
+/** JSON stores NaN as null */
+function restoreNaN(metrics: ErrorMetrics): ErrorMetrics {
+    return {
+        rmse: metrics.rmse ?? NaN,
+        mape: metrics.mape ?? NaN,
+        maxError: metrics.maxError ?? NaN,
+        samples: metrics.samples,
+    };
+}
+
+async function main(): Promise<void> {
+    const cli = parseArgs(process.argv.slice(2));
+
+    await tf.setBackend('cpu');
+    await tf.ready();
+
+    const manifest = await readManifest(cli.model);
+    setModel(await loadModelFromDisk(cli.model), manifest);
+    const baseline = await loadBaseline(cli.baseline);
+    console.log(`Benchmarking PINN v${manifest.modelVersion} from ${cli.model} against ` +
+        (baseline ? `shipped v${baseline.modelVersion}` : 'absolute limits only (no shipped benchmark recorded)'));
+
+    const report = await runPINNBenchmark({
+        thresholds: {
+            mape: cli.maxMape,
+            rmse: cli.maxRmse,
+            regression: cli.maxRegression / 100,
+            fallbacks: cli.maxFallbacks,
+        },
+        baseline,
+        onProgress: (done, total) => {
+            if (done % 50 === 0 || done === total) console.log(`scenario ${done}/${total}`);
+        },
+    });
+
+    await mkdir(cli.out, { recursive: true });
+    await writeFile(join(cli.out, 'benchmark.json'), JSON.stringify(report, null, 2));
+    await writeFile(join(cli.out, 'benchmark.html'), renderBenchmarkHtml(report));
+
+    console.log(`PINN vs analytical: RMSE ${report.analytical.rmse.toFixed(3)} L/s, MAPE ${report.analytical.mape.toFixed(1)}%, ` +
+        `max ${report.analytical.maxError.toFixed(3)} L/s`);
+    console.log(`PINN vs numerical:  RMSE ${report.numerical.rmse.toFixed(3)} L/s, MAPE ${report.numerical.mape.toFixed(1)}%, ` +
+        `max ${report.numerical.maxError.toFixed(3)} L/s`);
+    report.checks.forEach(c => console.log(`${c.passed ? 'pass' : 'FAIL'}  ${c.metric}: ${c.value.toFixed(3)} (limit ${c.limit.toFixed(3)})`));
+    console.log(`Report written to ${cli.out} — ${report.passed ? 'PASS' : 'FAIL'}`);
+
+    if (!report.passed) {
+        process.exitCode = 1;
+    } else if (cli.record) {
+        const recorded: PINNManifest = { ...manifest, benchmark: { analytical: report.analytical, numerical: report.numerical } };
+        await writeFile(join(cli.model, MANIFEST_FILE), JSON.stringify(recorded, null, 2));
+        console.log(`Benchmark recorded in ${join(cli.model, MANIFEST_FILE)}`);
+    }
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
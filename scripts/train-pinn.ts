@@ -0,0 +1,104 @@
+/**
+ * Headless PINN training (Node, CPU backend)
+ *
+ * Usage: npm run train:pinn -- [--epochs 20] [--batch-size 256] [--max-samples 20000]
+ *                               [--seed 1986] [--version 1.0.0] [--out public/models/pinn_runoff]
+ *
+ * To replace the shipped model, train into a separate --out directory and gate
+ * it first: npm run benchmark:pinn -- --model <out> --record
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import { trainPINN, DEFAULT_TRAINING_OPTIONS } from '../src/ml/pinnTraining';
+import { buildManifest, MANIFEST_FILE } from '../src/ml/pinnManifest';
+
+const WEIGHTS_FILE = 'weights.bin';
+
+interface CliOptions {
+    epochs: number;
+    batchSize: number;
+    maxSamples?: number;
+    seed: number;
+    version: string;
+    out: string;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+    const value = (flag: string) => {
+        const i = argv.indexOf(flag);
+        return i >= 0 ? argv[i + 1] : undefined;
+    };
+    const maxSamples = value('--max-samples');
+    return {
+        epochs: Number(value('--epochs') ?? DEFAULT_TRAINING_OPTIONS.epochs),
+        batchSize: Number(value('--batch-size') ?? DEFAULT_TRAINING_OPTIONS.batchSize),
+        maxSamples: maxSamples !== undefined ? Number(maxSamples) : undefined,
+        seed: Number(value('--seed') ?? DEFAULT_TRAINING_OPTIONS.seed),
+        version: value('--version') ?? new Date().toISOString().slice(0, 10).replace(/-/g, '.'),
+        out: value('--out') ?? 'public/models/pinn_runoff',
+    };
+}
+
+/**
+ * Save handler writing the TF.js layers format (model.json + weights.bin) to disk
+ */
+function fileSaveHandler(dir: string): tf.io.IOHandler {
+    return tf.io.withSaveHandler(async artifacts => {
+        await mkdir(dir, { recursive: true });
+        const weightData = artifacts.weightData instanceof ArrayBuffer
+            ? artifacts.weightData
+            : await new Blob(artifacts.weightData ?? []).arrayBuffer();
+
+        const modelJson = {
+            modelTopology: artifacts.modelTopology,
+            format: artifacts.format,
+            generatedBy: artifacts.generatedBy,
+            convertedBy: artifacts.convertedBy,
+            userDefinedMetadata: artifacts.userDefinedMetadata,
+            weightsManifest: [{ paths: [WEIGHTS_FILE], weights: artifacts.weightSpecs ?? [] }],
+        };
+        await writeFile(join(dir, 'model.json'), JSON.stringify(modelJson));
+        await writeFile(join(dir, WEIGHTS_FILE), new Uint8Array(weightData));
+
+        return { modelArtifactsInfo: tf.io.getModelArtifactsInfoForJSON(artifacts) };
+    });
+}
+
+async function main(): Promise<void> {
+    const cli = parseArgs(process.argv.slice(2));
+
+    await tf.setBackend('cpu');
+    await tf.ready();
+    console.log(`Training PINN v${cli.version} on ${tf.getBackend()} backend (seed ${cli.seed})`);
+
+    const result = await trainPINN({
+        epochs: cli.epochs,
+        batchSize: cli.batchSize,
+        maxSamples: cli.maxSamples,
+        seed: cli.seed,
+        onEpochEnd: m => console.log(
+            `epoch ${String(m.epoch).padStart(3)}  loss ${m.loss.toFixed(5)}  ` +
+            `data ${m.dataLoss.toFixed(5)}  pde ${m.residualLoss.toFixed(5)}  ` +
+            `bc ${m.boundaryLoss.toFixed(5)}  ic ${m.initialLoss.toFixed(5)}  ` +
+            `val RMSE ${m.rmse.toFixed(3)} L/s  MAPE ${m.mape.toFixed(1)}%`
+        ),
+    });
+
+    console.log(`Samples: ${result.trainSamples} train / ${result.validationSamples} validation`);
+    console.log(`Validation: RMSE ${result.validation.rmse.toFixed(3)} L/s, MAPE ${result.validation.mape.toFixed(1)}%`);
+
+    await result.model.save(fileSaveHandler(cli.out));
+    const manifest = buildManifest(cli.version, result.trainingRanges, {
+        ...result.validation,
+        samples: result.validationSamples,
+    }, result.seed);
+    await writeFile(join(cli.out, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+    console.log(`Model written to ${cli.out}`);
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
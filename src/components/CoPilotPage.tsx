@@ -5,13 +5,31 @@
  * Powered by PINN hydrology engine.
  */
 
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import {
-    performDIN1986Assessment,
+    computeFlaechenbilanz,
+    DIN_RUNOFF_COEFFICIENTS,
+    ANLAGENTYP_LABELS,
+    ABFLUSSMETHODE_LABELS,
+    formatAbweichung,
+    formatModellregenAbfluss,
+    formatPINNIntervall,
+    formatStandortmodell,
     type DIN1986Input,
     type DIN1986Result,
+    type Flaechentyp,
+    type Teilflaeche,
+    type Versickerungsanlage,
 } from '../services/din1986Engine';
+import type { InfiltrationSystemType } from '../utils/dwaA138';
 import { generateDIN1986PDF } from '../services/din1986Report';
+import { importKostraGrid } from '../services/kostraProvider';
+import { parseMessreiheCsv } from '../services/standortmodell';
+import { computeHydrographStorage } from '../utils/hydrology';
+import { buildDesignStorm, DESIGN_STORM_DURATIONS, HYETOGRAPH_LABELS, type HyetographType } from '../utils/hyetograph';
+import type { KinematicWaveHydrograph } from '../ml/pinnModel';
+import { describeEnvelopeCheck } from '../ml/pinnManifest';
+import { isAbortError, runAssessmentJob, runFineTuningJob, type EngineJob } from '../workers/engineClient';
 import './CoPilotStyles.css';
 
 const DEFAULT_INPUT: DIN1986Input = {
@@ -22,6 +40,9 @@ const DEFAULT_INPUT: DIN1986Input = {
     gelaendeneigung: 2.0,
     manningN: 0.015,
     fliesslaenge: 50,
+    drosselabfluss: 50,
+    verfuegbaresRueckhaltevolumen: 80,
+    drosselabflussspende: 10,
     latitude: 52.52,
     longitude: 13.405,
 };
@@ -35,9 +56,38 @@ const SOIL_OPTIONS: { value: DIN1986Input['bodenart']; label: string }[] = [
     { value: 'TM', label: 'TM — Ton, mittel plastisch' },
 ];
 
+const SURFACE_OPTIONS = (Object.keys(DIN_RUNOFF_COEFFICIENTS) as Flaechentyp[]).map(typ => ({
+    value: typ,
+    label: `${DIN_RUNOFF_COEFFICIENTS[typ].label} (Ψs ${DIN_RUNOFF_COEFFICIENTS[typ].cs.toFixed(2)})`,
+}));
+
+const INFILTRATION_OPTIONS = (Object.keys(ANLAGENTYP_LABELS) as InfiltrationSystemType[]).map(typ => ({
+    value: typ,
+    label: ANLAGENTYP_LABELS[typ],
+}));
+
+/**
+ * Apply a new sub-area list; total and sealed area follow the sub-areas while any exist
+ */
+function withTeilflaechen(prev: DIN1986Input, teilflaechen: Teilflaeche[]): DIN1986Input {
+    if (teilflaechen.length === 0) return { ...prev, teilflaechen: undefined };
+    const bilanz = computeFlaechenbilanz({ ...prev, teilflaechen });
+    return {
+        ...prev,
+        teilflaechen,
+        grundstuecksflaeche: bilanz.gesamtflaeche,
+        versiegelteFlaeche: bilanz.versiegelteFlaeche,
+    };
+}
+
 export function CoPilotPage() {
     const [input, setInput] = useState<DIN1986Input>(DEFAULT_INPUT);
     const [result, setResult] = useState<DIN1986Result | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [progress, setProgress] = useState<{ step: string; fraction: number } | null>(null);
+    const jobRef = useRef<EngineJob<unknown> | null>(null);
+    const [gridInfo, setGridInfo] = useState<string | null>(null);
+    const [standortInfo, setStandortInfo] = useState<string | null>(null);
 
     const versiegelungsgrad = useMemo(() => {
         if (input.grundstuecksflaeche <= 0) return 0;
@@ -50,9 +100,76 @@ export function CoPilotPage() {
         setInput(prev => ({ ...prev, [field]: value }));
     }, []);
 
-    const handleCalculate = useCallback(() => {
-        const assessment = performDIN1986Assessment(input);
-        setResult(assessment);
+    const handleTeilflaechenChange = useCallback((teilflaechen: Teilflaeche[]) => {
+        setInput(prev => withTeilflaechen(prev, teilflaechen));
+    }, []);
+
+    const handleAnlagenChange = useCallback((versickerungsanlagen: Versickerungsanlage[]) => {
+        setInput(prev => ({ ...prev, versickerungsanlagen }));
+    }, []);
+
+    const hasTeilflaechen = !!input.teilflaechen?.length;
+    const hasFlaeche = input.grundstuecksflaeche > 0;
+
+    const handleCalculate = useCallback(async () => {
+        setProgress({ step: 'Start', fraction: 0 });
+        try {
+            const job = runAssessmentJob(input, (step, fraction) => setProgress({ step, fraction }));
+            jobRef.current = job;
+            const assessment = await job.promise;
+            setResult(assessment);
+            setError(null);
+        } catch (e) {
+            // Cancelled runs keep the previous result
+            if (!isAbortError(e)) {
+                setResult(null);
+                setError(e instanceof Error ? e.message : String(e));
+            }
+        } finally {
+            jobRef.current = null;
+            setProgress(null);
+        }
+    }, [input]);
+
+    const handleCancel = useCallback(() => {
+        jobRef.current?.cancel();
+    }, []);
+
+    // Cancel a running job when the page unmounts
+    useEffect(() => () => jobRef.current?.cancel(), []);
+
+    const handleGridImport = useCallback(async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            const grid = importKostraGrid(await file.text());
+            setGridInfo(`${grid.version}: ${grid.cells.length} Rasterfelder importiert`);
+            setError(null);
+        } catch (e) {
+            setGridInfo(null);
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    }, []);
+
+    const handleGaugeImport = useCallback(async (file: File | undefined) => {
+        if (!file) return;
+        setProgress({ step: 'Messreihe lesen', fraction: 0 });
+        try {
+            const messwerte = parseMessreiheCsv(await file.text());
+            const job = runFineTuningJob(input, messwerte, (step, fraction) => setProgress({ step, fraction }));
+            jobRef.current = job;
+            const info = await job.promise;
+            setStandortInfo(`Standortmodell „${info.project}“: ${formatStandortmodell(info)}`);
+            setError(null);
+        } catch (e) {
+            // A cancelled fine-tuning keeps the previous model
+            if (!isAbortError(e)) {
+                setStandortInfo(null);
+                setError(e instanceof Error ? e.message : String(e));
+            }
+        } finally {
+            jobRef.current = null;
+            setProgress(null);
+        }
     }, [input]);
 
     const handleExportPDF = useCallback(() => {
@@ -92,6 +209,56 @@ export function CoPilotPage() {
                         />
                     </div>
 
+                    <div className="copilot-form-row">
+                        <div className="copilot-form-group">
+                            <label>Breitengrad <span className="unit">(WGS84)</span></label>
+                            <input
+                                id="latitude"
+                                className="copilot-input"
+                                type="number"
+                                step={0.001}
+                                value={input.latitude}
+                                onChange={e => handleChange('latitude', Number(e.target.value))}
+                            />
+                        </div>
+                        <div className="copilot-form-group">
+                            <label>Längengrad <span className="unit">(WGS84)</span></label>
+                            <input
+                                id="longitude"
+                                className="copilot-input"
+                                type="number"
+                                step={0.001}
+                                value={input.longitude}
+                                onChange={e => handleChange('longitude', Number(e.target.value))}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="copilot-form-group">
+                        <label>KOSTRA-Raster <span className="unit">(optional, JSON)</span></label>
+                        <input
+                            id="kostra-import"
+                            className="copilot-input"
+                            type="file"
+                            accept=".json,application/json"
+                            onChange={e => handleGridImport(e.target.files?.[0])}
+                        />
+                        {gridInfo && <div className="copilot-form-hint">{gridInfo}</div>}
+                    </div>
+
+                    <div className="copilot-form-group">
+                        <label>Pegelmessungen <span className="unit">(optional, CSV: zeit, regen, abfluss)</span></label>
+                        <input
+                            id="gauge-import"
+                            className="copilot-input"
+                            type="file"
+                            accept=".csv,text/csv"
+                            disabled={!!progress}
+                            onChange={e => handleGaugeImport(e.target.files?.[0])}
+                        />
+                        {standortInfo && <div className="copilot-form-hint" id="site-model-info">{standortInfo}</div>}
+                    </div>
+
                     <div className="copilot-form-group">
                         <label>Grundstücksfläche <span className="unit">(m²)</span></label>
                         <input
@@ -99,6 +266,7 @@ export function CoPilotPage() {
                             className="copilot-input"
                             type="number"
                             min={0}
+                            readOnly={hasTeilflaechen}
                             value={input.grundstuecksflaeche}
                             onChange={e => handleChange('grundstuecksflaeche', Number(e.target.value))}
                         />
@@ -112,6 +280,7 @@ export function CoPilotPage() {
                             type="number"
                             min={0}
                             max={input.grundstuecksflaeche}
+                            readOnly={hasTeilflaechen}
                             value={input.versiegelteFlaeche}
                             onChange={e => handleChange('versiegelteFlaeche', Number(e.target.value))}
                         />
@@ -129,6 +298,16 @@ export function CoPilotPage() {
                         <span className="copilot-din-ref">§14.9.2</span>
                     </div>
 
+                    <div className="copilot-section-title" style={{ marginTop: 24 }}>
+                        Teilflächen
+                        <span className="copilot-din-ref">Tabelle 9</span>
+                    </div>
+
+                    <TeilflaechenEditor
+                        teilflaechen={input.teilflaechen ?? []}
+                        onChange={handleTeilflaechenChange}
+                    />
+
                     <div className="copilot-section-title" style={{ marginTop: 24 }}>Geotechnik</div>
 
                     <div className="copilot-form-group">
@@ -185,6 +364,72 @@ export function CoPilotPage() {
                         />
                     </div>
 
+                    <div className="copilot-section-title" style={{ marginTop: 24 }}>
+                        Versickerungsanlagen
+                        <span className="copilot-din-ref">DWA-A 138</span>
+                    </div>
+
+                    <VersickerungsanlagenEditor
+                        anlagen={input.versickerungsanlagen ?? []}
+                        defaultFlaeche={input.versiegelteFlaeche}
+                        onChange={handleAnlagenChange}
+                    />
+
+                    <div className="copilot-section-title" style={{ marginTop: 24 }}>Entwässerung</div>
+
+                    <div className="copilot-form-group">
+                        <label>Drosselabfluss Q<sub>voll</sub> <span className="unit">(L/s)</span></label>
+                        <input
+                            id="throttle-outflow"
+                            className="copilot-input"
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            value={input.drosselabfluss}
+                            onChange={e => handleChange('drosselabfluss', Number(e.target.value))}
+                        />
+                    </div>
+
+                    <div className="copilot-form-group">
+                        <label>Schadlos überflutbares Volumen <span className="unit">(m³)</span></label>
+                        <input
+                            id="available-volume"
+                            className="copilot-input"
+                            type="number"
+                            min={0}
+                            value={input.verfuegbaresRueckhaltevolumen}
+                            onChange={e => handleChange('verfuegbaresRueckhaltevolumen', Number(e.target.value))}
+                        />
+                    </div>
+
+                    <div className="copilot-form-group">
+                        <label>Drosselabflussspende q<sub>dr</sub> <span className="unit">(L/(s·ha), DWA-A 117)</span></label>
+                        <input
+                            id="throttle-rate"
+                            className="copilot-input"
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            value={input.drosselabflussspende ?? ''}
+                            onChange={e => handleChange('drosselabflussspende', Number(e.target.value))}
+                        />
+                    </div>
+
+                    <div className="copilot-form-group">
+                        <label>Modellregen <span className="unit">(optional, numerische kinematische Welle)</span></label>
+                        <select
+                            id="design-storm-type"
+                            className="copilot-select"
+                            value={input.modellregen ?? ''}
+                            onChange={e => setInput(prev => ({ ...prev, modellregen: (e.target.value || undefined) as HyetographType | undefined }))}
+                        >
+                            <option value="">Kein Modellregen</option>
+                            {(Object.keys(HYETOGRAPH_LABELS) as HyetographType[]).map(t => (
+                                <option key={t} value={t}>{HYETOGRAPH_LABELS[t]}</option>
+                            ))}
+                        </select>
+                    </div>
+
                     <div className="copilot-section-title" style={{ marginTop: 24 }}>
                         Versiegelungsgrad: {(versiegelungsgrad * 100).toFixed(0)}%
                         {versiegelungsgrad >= 0.7
@@ -197,14 +442,37 @@ export function CoPilotPage() {
                         id="calculate-btn"
                         className="copilot-btn-calculate"
                         onClick={handleCalculate}
+                        disabled={!!progress || !hasFlaeche}
                     >
                         🔬 Überflutungsnachweis berechnen
                     </button>
+                    {!hasFlaeche && (
+                        <div className="copilot-form-hint" id="area-hint">
+                            Grundstücksfläche muss größer als 0 m² sein{hasTeilflaechen && ' — Teilflächen mit Fläche angeben'}.
+                        </div>
+                    )}
+
+                    {progress && (
+                        <div className="copilot-progress" id="calc-progress">
+                            <div className="copilot-progress-track">
+                                <div className="copilot-progress-fill" style={{ width: `${progress.fraction * 100}%` }} />
+                            </div>
+                            <span className="copilot-progress-step">{progress.step}</span>
+                            <button id="cancel-btn" className="copilot-btn-secondary" onClick={handleCancel}>
+                                Abbrechen
+                            </button>
+                        </div>
+                    )}
                 </div>
 
                 {/* Results Panel */}
                 <div className="copilot-results-panel">
-                    {!result ? (
+                    {error ? (
+                        <div className="copilot-status-banner fail">
+                            <span style={{ fontSize: 24 }}>❌</span>
+                            <span>{error}</span>
+                        </div>
+                    ) : !result ? (
                         <div className="copilot-results-empty">
                             <div className="copilot-results-empty-icon">🏗️</div>
                             <h3>Standortdaten eingeben</h3>
@@ -245,21 +513,21 @@ function ResultsView({ result, onExport }: { result: DIN1986Result; onExport: ()
             {/* Metric Cards */}
             <div className="copilot-metrics-grid">
                 <MetricCard
-                    label="Abflussbeiwert Ψ"
-                    value={result.abflussbeiwert.toFixed(3)}
-                    sub="gewichtet"
+                    label="Abflussbeiwert C_s"
+                    value={result.spitzenabflussbeiwert.toFixed(3)}
+                    sub={`C_m ${result.mittlererAbflussbeiwert.toFixed(3)} (Volumen)`}
                 />
                 <MetricCard
                     label="Bemessungsregen"
                     value={`T=${result.bemessungsregenJahre}a`}
                     unit=""
-                    sub={`${result.regenspende} mm/hr (r₁₅)`}
+                    sub={`${result.regenspende.toFixed(0)} mm/hr (D=${result.massgebendeDauer} min) · Rasterfeld ${result.niederschlag.cellId}${result.niederschlag.placeholder ? ' (Platzhalter)' : ''}`}
                 />
                 <MetricCard
                     label="Rückhaltevolumen"
                     value={result.rueckhaltevolumen.toFixed(1)}
                     unit="m³"
-                    sub="erforderlich"
+                    sub={`V_Rück, D=${result.massgebendeDauerRueckhaltung} min · verfügbar ${result.verfuegbaresRueckhaltevolumen.toFixed(0)} m³`}
                 />
                 <MetricCard
                     label="Spitzenabfluss (Rational)"
@@ -267,9 +535,12 @@ function ResultsView({ result, onExport }: { result: DIN1986Result; onExport: ()
                     unit="L/s"
                 />
                 <MetricCard
-                    label="Spitzenabfluss (Kinematisch)"
+                    label={result.abflussMethode === 'PINN' ? 'Spitzenabfluss (PINN)' : 'Spitzenabfluss (Kinematisch)'}
                     value={result.spitzenabflussPINN.toFixed(1)}
                     unit="L/s"
+                    sub={result.spitzenabflussPINNIntervall
+                        ? `PINN ${(result.spitzenabflussPINNIntervall.level * 100).toFixed(0)} %: ${formatPINNIntervall(result.spitzenabflussPINNIntervall)}`
+                        : undefined}
                 />
                 <MetricCard
                     label="Anstiegszeit"
@@ -293,7 +564,7 @@ function ResultsView({ result, onExport }: { result: DIN1986Result; onExport: ()
                     <span className="copilot-comparison-value">{result.spitzenabflussRational.toFixed(1)} L/s</span>
                 </div>
                 <div className="copilot-comparison-row">
-                    <span className="copilot-comparison-label">Kinematische Welle</span>
+                    <span className="copilot-comparison-label">{result.abflussMethode === 'PINN' ? 'PINN' : 'Kinematische Welle'}</span>
                     <div className="copilot-comparison-bar-track">
                         <div
                             className="copilot-comparison-bar-fill pinn"
@@ -302,6 +573,228 @@ function ResultsView({ result, onExport }: { result: DIN1986Result; onExport: ()
                     </div>
                     <span className="copilot-comparison-value">{result.spitzenabflussPINN.toFixed(1)} L/s</span>
                 </div>
+                <div className="copilot-form-hint" id="peak-method">
+                    Angesetzt: {ABFLUSSMETHODE_LABELS[result.abflussMethode]}
+                    {result.pinnVergleich && (
+                        <>
+                            {' '}· PINN {result.pinnVergleich.spitzenabflussPINN.toFixed(1)} L/s vs. analytisch
+                            {' '}{result.pinnVergleich.spitzenabflussAnalytisch.toFixed(1)} L/s
+                            (Abweichung {formatAbweichung(result.pinnVergleich.abweichung)},
+                            {' '}{result.pinnVergleich.uebereinstimmung ? 'übereinstimmend' : 'abweichend — analytischer Wert angesetzt'})
+                        </>
+                    )}
+                </div>
+                {result.spitzenabflussPINNIntervall && (
+                    <div className="copilot-form-hint" id="pinn-interval">
+                        PINN (MC-Dropout): {result.spitzenabflussPINNIntervall.mean.toFixed(1)} ± {result.spitzenabflussPINNIntervall.std.toFixed(1)} L/s,
+                        {' '}{(result.spitzenabflussPINNIntervall.level * 100).toFixed(0)} %-Intervall {formatPINNIntervall(result.spitzenabflussPINNIntervall)}
+                    </div>
+                )}
+                {result.standortmodell && (
+                    <div className="copilot-form-hint" id="site-model-hint">
+                        PINN an Standortmessungen angepasst: {formatStandortmodell(result.standortmodell)}
+                    </div>
+                )}
+                {result.pinnGueltigkeit.outOfDistribution && (
+                    <div className="copilot-form-hint" id="pinn-ood">
+                        PINN nicht verwendet — außerhalb des Trainingsbereichs
+                        (Abstand {result.pinnGueltigkeit.distance.toFixed(2)}): {describeEnvelopeCheck(result.pinnGueltigkeit)}.
+                        Es gilt die analytische kinematische Welle.
+                    </div>
+                )}
+            </div>
+
+            {/* Hydrograph */}
+            <div className="copilot-comparison" id="hydrograph">
+                <h4>Abflussganglinie — Kinematische Welle, D = {result.ganglinie.rainDuration} min</h4>
+                <HydrographChart ganglinie={result.ganglinie} drosselabfluss={result.drosselabfluss} />
+                <div className="copilot-form-hint">
+                    Q_max {Math.max(...result.ganglinie.discharge).toFixed(1)} L/s · t_e {result.ganglinie.timeToEquilibrium.toFixed(1)} min ·
+                    Speicherbedarf über Q_voll {computeHydrographStorage(result.ganglinie.time, result.ganglinie.discharge, result.drosselabfluss).toFixed(1)} m³
+                </div>
+            </div>
+
+            {result.modellregenAbfluss && (
+                <div className="copilot-comparison" id="design-storm-hydrograph">
+                    <h4>Abflussganglinie — {HYETOGRAPH_LABELS[result.modellregenAbfluss.typ]}, D = {result.modellregenAbfluss.dauer} min (numerisch)</h4>
+                    <HydrographChart ganglinie={result.modellregenAbfluss.ganglinie} drosselabfluss={result.drosselabfluss} />
+                    <div className="copilot-form-hint">
+                        {formatModellregenAbfluss(result.modellregenAbfluss)} ·
+                        Speicherbedarf über Q_voll {computeHydrographStorage(result.modellregenAbfluss.ganglinie.time, result.modellregenAbfluss.ganglinie.discharge, result.drosselabfluss).toFixed(1)} m³
+                    </div>
+                </div>
+            )}
+
+            {/* Design Storm */}
+            <DesignStormView result={result} />
+
+            {/* Surface Breakdown */}
+            <div className="copilot-comparison">
+                <h4>Flächenaufteilung — DIN 1986-100 Tabelle 9</h4>
+                <table className="copilot-table">
+                    <thead>
+                        <tr>
+                            <th>Fläche</th>
+                            <th>A (m²)</th>
+                            <th>Ψs</th>
+                            <th>Ψm</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {result.flaechenaufteilung.teilflaechen.map((f, i) => (
+                            <tr key={i}>
+                                <td>{f.bezeichnung || DIN_RUNOFF_COEFFICIENTS[f.typ].label}</td>
+                                <td>{f.flaeche.toFixed(0)}</td>
+                                <td>{f.psiS.toFixed(2)}</td>
+                                <td>{f.psiM.toFixed(2)}</td>
+                            </tr>
+                        ))}
+                        <tr className="governing">
+                            <td>Gesamt (gewichtet)</td>
+                            <td>{result.flaechenaufteilung.gesamtflaeche.toFixed(0)}</td>
+                            <td>{result.flaechenaufteilung.psiS.toFixed(3)}</td>
+                            <td>{result.flaechenaufteilung.psiM.toFixed(3)}</td>
+                        </tr>
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Infiltration Check */}
+            <div className="copilot-comparison" id="infiltration-check">
+                <h4>
+                    Versickerung — DWA-A 138
+                    <span className={`copilot-verdict ${result.versickerung.zulaessig ? 'pass' : 'fail'}`}>
+                        {result.versickerung.zulaessig ? 'zulässig' : 'nicht zulässig'}
+                    </span>
+                </h4>
+                <table className="copilot-table">
+                    <tbody>
+                        <tr>
+                            <td>kf-Bereich (DIN 18196)</td>
+                            <td>{result.versickerung.kfMin.toExponential(0)} … {result.versickerung.kfMax.toExponential(0)} m/s</td>
+                        </tr>
+                        <tr>
+                            <td>kf (Bemessung)</td>
+                            <td>{result.versickerung.kfBemessung.toExponential(1)} m/s</td>
+                        </tr>
+                        {result.versickerung.zulaessig && (
+                            <>
+                                <tr>
+                                    <td>Anlage</td>
+                                    <td>{result.versickerung.anlagentyp}, A_s = {result.versickerung.versickerungsflaeche.toFixed(0)} m²</td>
+                                </tr>
+                                <tr>
+                                    <td>Erforderliches Volumen</td>
+                                    <td>{result.versickerung.erforderlichesVolumen.toFixed(1)} m³ (D={result.versickerung.massgebendeDauer} min)</td>
+                                </tr>
+                                <tr>
+                                    <td>Entleerungszeit</td>
+                                    <td>{result.versickerung.entleerungszeit.toFixed(1)} h</td>
+                                </tr>
+                            </>
+                        )}
+                    </tbody>
+                </table>
+                <div className="copilot-form-hint">{result.versickerung.begruendung}</div>
+                {result.versickerungsanlagen.length > 0 && (
+                    <table className="copilot-table" id="infiltration-systems">
+                        <thead>
+                            <tr>
+                                <th>Anlage</th>
+                                <th>A_u (m²)</th>
+                                <th>Fläche (m²)</th>
+                                <th>Tiefe (m)</th>
+                                <th>Länge (m)</th>
+                                <th>Volumen (m³)</th>
+                                <th>t_E (h)</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {result.versickerungsanlagen.map((anlage, i) => (
+                                <tr key={i}>
+                                    <td>{anlage.bezeichnung || ANLAGENTYP_LABELS[anlage.typ]}</td>
+                                    <td>{anlage.angeschlosseneFlaeche.toFixed(0)}</td>
+                                    {anlage.bemessung ? (
+                                        <>
+                                            <td>{anlage.bemessung.requiredArea.toFixed(0)}</td>
+                                            <td>{anlage.bemessung.depth.toFixed(2)}</td>
+                                            <td>{anlage.bemessung.length > 0 ? anlage.bemessung.length.toFixed(1) : '—'}</td>
+                                            <td>{anlage.bemessung.volume.toFixed(1)}</td>
+                                            <td>
+                                                <span className={`copilot-verdict ${anlage.bemessung.emptyingTimeOk ? 'pass' : 'fail'}`}>
+                                                    {anlage.bemessung.emptyingTime.toFixed(1)}
+                                                </span>
+                                            </td>
+                                        </>
+                                    ) : (
+                                        <td colSpan={5}>nicht bemessen — Versickerung nicht zulässig</td>
+                                    )}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {/* Retention Basin */}
+            {result.regenrueckhalteraum && (
+                <div className="copilot-comparison" id="retention-basin">
+                    <h4>Regenrückhalteraum — DWA-A 117</h4>
+                    <table className="copilot-table">
+                        <tbody>
+                            <tr>
+                                <td>Drosselabfluss Q_dr</td>
+                                <td>{result.regenrueckhalteraum.throttleOutflow.toFixed(1)} L/s ({result.regenrueckhalteraum.throttleRate.toFixed(1)} L/(s·ha))</td>
+                            </tr>
+                            <tr>
+                                <td>q_dr,R,u (bez. auf A_u)</td>
+                                <td>{result.regenrueckhalteraum.throttleRateImpervious.toFixed(1)} L/(s·ha)</td>
+                            </tr>
+                            <tr>
+                                <td>Spez. Volumen V_s,u</td>
+                                <td>{result.regenrueckhalteraum.specificVolume.toFixed(0)} m³/ha (T={result.regenrueckhalteraum.returnPeriod}a, f_Z = {result.regenrueckhalteraum.safetyFactor})</td>
+                            </tr>
+                            <tr className="governing">
+                                <td>Erforderliches Volumen</td>
+                                <td>{result.regenrueckhalteraum.requiredVolume.toFixed(1)} m³ (D={result.regenrueckhalteraum.governingDuration} min)</td>
+                            </tr>
+                            <tr>
+                                <td>Entleerungszeit</td>
+                                <td>{result.regenrueckhalteraum.emptyingTime.toFixed(1)} h</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {/* Duration Scan */}
+            <div className="copilot-comparison">
+                <h4>Dauerstufen — Regendauer D = 5…1440 min</h4>
+                <table className="copilot-table">
+                    <thead>
+                        <tr>
+                            <th>D (min)</th>
+                            <th>r(D,T) (mm/hr)</th>
+                            <th>Q Rational (L/s)</th>
+                            <th>Q Kinematisch (L/s)</th>
+                            <th>V_Rück r(D,30) (m³)</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {result.dauerstufen.map(stufe => (
+                            <tr
+                                key={stufe.dauer}
+                                className={stufe.dauer === result.massgebendeDauer ? 'governing' : undefined}
+                            >
+                                <td>{stufe.dauer}</td>
+                                <td>{stufe.regenspende.toFixed(0)}</td>
+                                <td>{stufe.spitzenabflussRational.toFixed(1)}</td>
+                                <td>{stufe.spitzenabflussKinematisch.toFixed(1)}</td>
+                                <td>{stufe.rueckhaltevolumen.toFixed(1)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
             </div>
 
             {/* Recommendations */}
@@ -322,6 +815,217 @@ function ResultsView({ result, onExport }: { result: DIN1986Result; onExport: ()
     );
 }
 
+// ===== Hydrograph Chart =====
+
+function HydrographChart({ ganglinie, drosselabfluss }: {
+    ganglinie: Pick<KinematicWaveHydrograph, 'time' | 'discharge' | 'rainDuration'>;
+    drosselabfluss: number;
+}) {
+    const width = 400;
+    const height = 160;
+    const pad = 28;
+    const tMax = ganglinie.time[ganglinie.time.length - 1] || 1;
+    const qMax = Math.max(...ganglinie.discharge, drosselabfluss) * 1.1 || 1;
+
+    const x = (t: number) => pad + (t / tMax) * (width - 2 * pad);
+    const y = (q: number) => height - pad - (q / qMax) * (height - 2 * pad);
+    const line = ganglinie.time.map((t, i) => `${x(t).toFixed(1)},${y(ganglinie.discharge[i]).toFixed(1)}`).join(' ');
+
+    return (
+        <svg className="copilot-hydrograph" viewBox={`0 0 ${width} ${height}`} role="img" aria-label="Abflussganglinie Q(t)">
+            <line className="axis" x1={pad} y1={height - pad} x2={width - pad} y2={height - pad} />
+            <line className="axis" x1={pad} y1={pad} x2={pad} y2={height - pad} />
+            {ganglinie.rainDuration !== undefined && (
+                <line className="rain-end" x1={x(ganglinie.rainDuration)} y1={pad} x2={x(ganglinie.rainDuration)} y2={height - pad} />
+            )}
+            <line className="throttle" x1={pad} y1={y(drosselabfluss)} x2={width - pad} y2={y(drosselabfluss)} />
+            <polyline className="discharge" points={line} />
+            <text x={pad} y={pad - 8}>Q (L/s) — max {qMax.toFixed(0)}</text>
+            <text x={width - pad} y={height - 8} textAnchor="end">t (min) — {tMax.toFixed(0)}</text>
+        </svg>
+    );
+}
+
+// ===== Design Storm =====
+
+function DesignStormView({ result }: { result: DIN1986Result }) {
+    const [type, setType] = useState<HyetographType>(result.modellregenAbfluss?.typ ?? 'euler2');
+    const [duration, setDuration] = useState(60);
+
+    const storm = useMemo(
+        () => buildDesignStorm(result.niederschlag, type, duration, result.bemessungsregenJahre),
+        [result.niederschlag, result.bemessungsregenJahre, type, duration],
+    );
+
+    const width = 400;
+    const height = 140;
+    const pad = 28;
+    const iMax = Math.max(...storm.intensity) * 1.1 || 1;
+    const barWidth = (width - 2 * pad) / storm.intensity.length;
+
+    return (
+        <div className="copilot-comparison" id="design-storm">
+            <h4>Modellregen — T={storm.returnPeriod}a, hN = {storm.totalDepth.toFixed(1)} mm</h4>
+            <div className="copilot-form-row">
+                <select
+                    id="hyetograph-type"
+                    className="copilot-select"
+                    value={type}
+                    onChange={e => setType(e.target.value as HyetographType)}
+                >
+                    {(Object.keys(HYETOGRAPH_LABELS) as HyetographType[]).map(t => (
+                        <option key={t} value={t}>{HYETOGRAPH_LABELS[t]}</option>
+                    ))}
+                </select>
+                <select
+                    id="hyetograph-duration"
+                    className="copilot-select"
+                    value={duration}
+                    onChange={e => setDuration(Number(e.target.value))}
+                >
+                    {DESIGN_STORM_DURATIONS.map(d => (
+                        <option key={d} value={d}>D = {d} min</option>
+                    ))}
+                </select>
+            </div>
+            <svg className="copilot-hydrograph" viewBox={`0 0 ${width} ${height}`} role="img" aria-label="Modellregen r(t)">
+                <line className="axis" x1={pad} y1={height - pad} x2={width - pad} y2={height - pad} />
+                <line className="axis" x1={pad} y1={pad} x2={pad} y2={height - pad} />
+                {storm.intensity.map((intensity, k) => {
+                    const barHeight = (intensity / iMax) * (height - 2 * pad);
+                    return (
+                        <rect
+                            key={k}
+                            className="rain-block"
+                            x={pad + k * barWidth}
+                            y={height - pad - barHeight}
+                            width={Math.max(barWidth - 1, 1)}
+                            height={barHeight}
+                        />
+                    );
+                })}
+                <text x={pad} y={pad - 8}>r (mm/hr) — max {Math.max(...storm.intensity).toFixed(0)}</text>
+                <text x={width - pad} y={height - 8} textAnchor="end">t (min) — {storm.duration}</text>
+            </svg>
+        </div>
+    );
+}
+
+// ===== Sub-Area Editor =====
+
+function TeilflaechenEditor({ teilflaechen, onChange }: {
+    teilflaechen: Teilflaeche[];
+    onChange: (teilflaechen: Teilflaeche[]) => void;
+}) {
+    const update = (index: number, patch: Partial<Teilflaeche>) => {
+        onChange(teilflaechen.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+    };
+
+    return (
+        <div className="copilot-surface-list">
+            {teilflaechen.map((f, i) => (
+                <div key={i} className="copilot-surface-row">
+                    <input
+                        className="copilot-input surface-name"
+                        type="text"
+                        placeholder="Bezeichnung, z. B. Dach Halle A"
+                        value={f.bezeichnung ?? ''}
+                        onChange={e => update(i, { bezeichnung: e.target.value })}
+                    />
+                    <select
+                        className="copilot-select surface-type"
+                        value={f.typ}
+                        onChange={e => update(i, { typ: e.target.value as Flaechentyp })}
+                    >
+                        {SURFACE_OPTIONS.map(opt => (
+                            <option key={opt.value} value={opt.value}>{opt.label}</option>
+                        ))}
+                    </select>
+                    <input
+                        className="copilot-input surface-area"
+                        type="number"
+                        min={0}
+                        value={f.flaeche}
+                        onChange={e => update(i, { flaeche: Number(e.target.value) })}
+                    />
+                    <button
+                        className="copilot-btn-icon"
+                        title="Teilfläche entfernen"
+                        onClick={() => onChange(teilflaechen.filter((_, j) => j !== i))}
+                    >
+                        ✕
+                    </button>
+                </div>
+            ))}
+            <button
+                id="add-surface"
+                className="copilot-btn-secondary"
+                onClick={() => onChange([...teilflaechen, { typ: 'dach_flach', flaeche: 0 }])}
+            >
+                + Teilfläche hinzufügen
+            </button>
+            {teilflaechen.length > 0 && (
+                <div className="copilot-form-hint">Grundstücks- und versiegelte Fläche ergeben sich aus den Teilflächen.</div>
+            )}
+        </div>
+    );
+}
+
+// ===== Infiltration System Editor =====
+
+function VersickerungsanlagenEditor({ anlagen, defaultFlaeche, onChange }: {
+    anlagen: Versickerungsanlage[];
+    defaultFlaeche: number;
+    onChange: (anlagen: Versickerungsanlage[]) => void;
+}) {
+    const update = (index: number, patch: Partial<Versickerungsanlage>) => {
+        onChange(anlagen.map((a, i) => (i === index ? { ...a, ...patch } : a)));
+    };
+
+    return (
+        <div className="copilot-surface-list">
+            {anlagen.map((a, i) => (
+                <div key={i} className="copilot-surface-row">
+                    <select
+                        className="copilot-select infiltration-type"
+                        value={a.typ}
+                        onChange={e => update(i, { typ: e.target.value as InfiltrationSystemType })}
+                    >
+                        {INFILTRATION_OPTIONS.map(opt => (
+                            <option key={opt.value} value={opt.value}>{opt.label}</option>
+                        ))}
+                    </select>
+                    <input
+                        className="copilot-input infiltration-area"
+                        type="number"
+                        min={0}
+                        title="Angeschlossene Fläche A_u (m²)"
+                        value={a.angeschlosseneFlaeche}
+                        onChange={e => update(i, { angeschlosseneFlaeche: Number(e.target.value) })}
+                    />
+                    <button
+                        className="copilot-btn-icon"
+                        title="Anlage entfernen"
+                        onClick={() => onChange(anlagen.filter((_, j) => j !== i))}
+                    >
+                        ✕
+                    </button>
+                </div>
+            ))}
+            <button
+                id="add-infiltration"
+                className="copilot-btn-secondary"
+                onClick={() => onChange([...anlagen, { typ: 'mulde', angeschlosseneFlaeche: defaultFlaeche }])}
+            >
+                + Versickerungsanlage hinzufügen
+            </button>
+            {anlagen.length > 0 && (
+                <div className="copilot-form-hint">Angeschlossene Fläche A_u in m². Bemessung mit n = 0,2/a und f_Z = 1,2.</div>
+            )}
+        </div>
+    );
+}
+
 // ===== Metric Card =====
 
 function MetricCard({ label, value, unit, sub }: {
@@ -0,0 +1,108 @@
+/**
+ * PINN Benchmark Report
+ *
+ * Renders a benchmark report as a self-contained HTML page: verdict, error
+ * metrics, threshold checks and colour-coded error maps by parameter region.
+ */
+
+import type { BenchmarkParameter, BenchmarkReport, ErrorMap, ErrorMetrics } from './pinnBenchmark';
+
+const PARAMETER_LABELS: Record<BenchmarkParameter, string> = {
+    length: 'Flow length L (m)',
+    position: 'Position x/L',
+    t: 'Time t (min)',
+    rainfall: 'Rainfall r (mm/h)',
+    slope: 'Slope S (m/m)',
+    manningN: "Manning's n",
+    width: 'Width W (m)',
+};
+
+/** MAPE (%) shown fully red in the error maps */
+const MAP_SATURATION = 50;
+
+/**
+ * Render the benchmark report as HTML
+ */
+export function renderBenchmarkHtml(report: BenchmarkReport): string {
+    const verdict = report.passed ? 'PASS' : 'FAIL';
+    const version = escapeHtml(report.modelVersion ?? 'no model');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>PINN Benchmark ${version} — ${verdict}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+table { border-collapse: collapse; margin: 0.5rem 0 1.5rem; }
+th, td { border: 1px solid #d1d5db; padding: 0.3rem 0.6rem; text-align: right; }
+th { background: #f3f4f6; }
+.verdict { display: inline-block; padding: 0.2rem 0.8rem; border-radius: 4px; color: #fff; font-weight: bold; }
+.pass { background: #16a34a; }
+.fail { background: #dc2626; }
+</style>
+</head>
+<body>
+<h1>PINN Benchmark <span class="verdict ${report.passed ? 'pass' : 'fail'}">${verdict}</span></h1>
+<p>Model ${version} · ${escapeHtml(report.createdAt)} · ${report.points.length} points
+(${report.fallbacks} analytical fallbacks, excluded from the metrics)</p>
+<p>${report.baseline
+        ? `Compared against shipped model ${escapeHtml(report.baseline.modelVersion)} (regression tolerance ${formatNumber(report.thresholds.regression * 100)} %)`
+        : 'No benchmark of a shipped model recorded — absolute limits only'}</p>
+
+<h2>Error metrics</h2>
+<table>
+<tr><th>Comparison</th><th>RMSE (L/s)</th><th>MAPE (%)</th><th>Max error (L/s)</th><th>Samples</th></tr>
+${metricsRow('PINN vs analytical', report.analytical)}
+${metricsRow('PINN vs numerical', report.numerical)}
+${metricsRow('Numerical vs analytical', report.referenceAgreement)}
+${report.baseline ? metricsRow('Shipped PINN vs analytical', report.baseline.analytical) : ''}
+${report.baseline ? metricsRow('Shipped PINN vs numerical', report.baseline.numerical) : ''}
+</table>
+
+<h2>Checks</h2>
+<table>
+<tr><th>Metric</th><th>Value</th><th>Limit</th><th>Result</th></tr>
+${report.checks.map(c => `<tr><td>${escapeHtml(c.metric)}</td><td>${formatNumber(c.value)}</td><td>${formatNumber(c.limit)}</td><td>${c.passed ? 'pass' : 'fail'}</td></tr>`).join('\n')}
+</table>
+
+<h2>Error maps (MAPE vs analytical, %)</h2>
+${report.errorMaps.map(renderErrorMap).join('\n')}
+</body>
+</html>
+`;
+}
+
+function metricsRow(label: string, metrics: ErrorMetrics): string {
+    return `<tr><td>${label}</td><td>${formatNumber(metrics.rmse)}</td><td>${formatNumber(metrics.mape)}</td>` +
+        `<td>${formatNumber(metrics.maxError)}</td><td>${metrics.samples}</td></tr>`;
+}
+
+function renderErrorMap(map: ErrorMap): string {
+    const header = map.columnValues.map(v => `<th>${formatNumber(v)}</th>`).join('');
+    const rows = map.rowValues.map((row, i) => {
+        const cells = map.mape[i].map(v => `<td style="background:${mapColour(v)}">${formatNumber(v)}</td>`).join('');
+        return `<tr><th>${formatNumber(row)}</th>${cells}</tr>`;
+    });
+    return `<h3>${PARAMETER_LABELS[map.rows]} × ${PARAMETER_LABELS[map.columns]}</h3>
+<table>
+<tr><th>${PARAMETER_LABELS[map.rows]} \\ ${PARAMETER_LABELS[map.columns]}</th>${header}</tr>
+${rows.join('\n')}
+</table>`;
+}
+
+/** Green (0 %) to red (≥ MAP_SATURATION %), grey without data */
+function mapColour(mape: number): string {
+    if (!Number.isFinite(mape)) return '#e5e7eb';
+    const hue = 120 * (1 - Math.min(mape, MAP_SATURATION) / MAP_SATURATION);
+    return `hsl(${hue.toFixed(0)}, 70%, 80%)`;
+}
+
+function formatNumber(value: number): string {
+    if (!Number.isFinite(value)) return '–';
+    return Math.abs(value) >= 100 ? value.toFixed(0) : String(Number(value.toPrecision(3)));
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
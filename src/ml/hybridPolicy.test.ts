@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { acceptsPINN, DEFAULT_HYBRID_POLICY, getHybridPolicy, setHybridPolicy } from './hybridPolicy';
+
+describe('acceptsPINN', () => {
+    afterEach(() => setHybridPolicy(DEFAULT_HYBRID_POLICY));
+
+    it('applies the wide band against the Rational Method', () => {
+        expect(acceptsPINN(30, 100, 'rational')).toBe(true);
+        expect(acceptsPINN(300, 100, 'rational')).toBe(true);
+        expect(acceptsPINN(29, 100, 'rational')).toBe(false);
+        expect(acceptsPINN(301, 100, 'rational')).toBe(false);
+    });
+
+    it('applies the narrow band against the analytical kinematic wave', () => {
+        expect(acceptsPINN(75, 100, 'analytical')).toBe(true);
+        expect(acceptsPINN(125, 100, 'analytical')).toBe(true);
+        expect(acceptsPINN(74, 100, 'analytical')).toBe(false);
+        expect(acceptsPINN(126, 100, 'analytical')).toBe(false);
+    });
+
+    it('accepts only zero for a zero reference', () => {
+        expect(acceptsPINN(0, 0, 'analytical')).toBe(true);
+        expect(acceptsPINN(1, 0, 'analytical')).toBe(false);
+    });
+
+    it('uses overridden thresholds for every caller', () => {
+        setHybridPolicy({ analytical: { min: 0.9, max: 1.1 } });
+
+        expect(getHybridPolicy().rational).toEqual(DEFAULT_HYBRID_POLICY.rational);
+        expect(acceptsPINN(85, 100, 'analytical')).toBe(false);
+        expect(acceptsPINN(85, 100, 'analytical', DEFAULT_HYBRID_POLICY)).toBe(true);
+    });
+});
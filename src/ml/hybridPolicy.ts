@@ -0,0 +1,56 @@
+/**
+ * Hybrid PINN Policy
+ *
+ * Decides when a PINN value may stand in for a reference method. The PINN
+ * must lie within a ratio band of the reference: a wide band against the
+ * Rational Method (plausibility), a narrow one against the analytical
+ * kinematic wave, which solves the same equations.
+ */
+
+export interface RatioBand {
+    min: number;  // Lowest accepted PINN / reference ratio
+    max: number;  // Highest accepted PINN / reference ratio
+}
+
+export interface HybridPolicy {
+    rational: RatioBand;    // PINN vs. Rational Method
+    analytical: RatioBand;  // PINN vs. analytical kinematic wave
+}
+
+export type HybridReference = keyof HybridPolicy;
+
+export const DEFAULT_HYBRID_POLICY: HybridPolicy = {
+    rational: { min: 0.3, max: 3.0 },
+    analytical: { min: 0.75, max: 1.25 },
+};
+
+let activePolicy: HybridPolicy = DEFAULT_HYBRID_POLICY;
+
+/**
+ * Policy used by all hybrid decisions
+ */
+export function getHybridPolicy(): HybridPolicy {
+    return activePolicy;
+}
+
+/**
+ * Override the thresholds of the policy
+ */
+export function setHybridPolicy(policy: Partial<HybridPolicy>): void {
+    activePolicy = { ...activePolicy, ...policy };
+}
+
+/**
+ * Whether the PINN value agrees with the reference under the policy
+ */
+export function acceptsPINN(
+    pinn: number,
+    reference: number,
+    against: HybridReference,
+    policy: HybridPolicy = activePolicy,
+): boolean {
+    if (reference <= 0) return pinn <= 0;
+    const band = policy[against];
+    const ratio = pinn / reference;
+    return ratio >= band.min && ratio <= band.max;
+}
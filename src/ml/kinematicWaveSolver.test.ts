@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { solveKinematicWave, type OverlandFlowParams } from './kinematicWaveSolver';
+
+/** Plane under sustained 150 mm/h rain for 60 min */
+const PLANE: OverlandFlowParams = {
+    length: 50,
+    width: 30,
+    slope: 0.02,
+    manningN: 0.015,
+    hyetograph: { interval: 60, intensity: [150] },
+    maxRecession: 0,
+};
+
+/** Equilibrium discharge Q = r·L·W (L/s) */
+const EQUILIBRIUM = 150 / 3.6e6 * 50 * 30 * 1000;
+
+describe('solveKinematicWave', () => {
+    it('converges to the analytical equilibrium discharge', () => {
+        const result = solveKinematicWave(PLANE);
+        const outlet = result.outletDischarge[result.outletDischarge.length - 1];
+
+        expect(outlet).toBeCloseTo(EQUILIBRIUM, 0);
+    });
+
+    it('does not overshoot equilibrium on a dry plane', () => {
+        const result = solveKinematicWave(PLANE);
+
+        expect(result.peakDischarge).toBeLessThanOrEqual(EQUILIBRIUM * 1.01);
+        expect(result.outletDischarge[3]).toBeLessThanOrEqual(EQUILIBRIUM * 1.01);
+    });
+
+    it('drains the full rain volume after the storm', () => {
+        const result = solveKinematicWave({
+            ...PLANE,
+            hyetograph: { interval: 10, intensity: [150] },
+            maxRecession: 1440,
+        });
+
+        expect(result.outflowVolume / result.rainVolume).toBeGreaterThan(0.98);
+        expect(result.outflowVolume / result.rainVolume).toBeLessThan(1.01);
+    });
+});
@@ -0,0 +1,149 @@
+/**
+ * Numerical Kinematic Wave Solver
+ *
+ * Explicit finite-volume upwind scheme for overland flow on an x–t grid:
+ *   ∂h/∂t + ∂q/∂x = r(t),   q = α(x)·h^m,   α = √S / n,   m = 5/3
+ * Accepts a time-varying hyetograph and slope / roughness profiles along the
+ * flow path. The time step follows the CFL condition c·Δt/Δx ≤ Courant.
+ */
+
+import type { Hyetograph } from '../utils/hyetograph';
+
+// ============ Types ============
+
+export interface OverlandFlowParams {
+    length: number;               // Flow path length (m)
+    width: number;                // Catchment width (m)
+    slope: number | number[];     // Surface slope (m/m), constant or profile from top to outlet
+    manningN: number | number[];  // Manning's n, constant or profile from top to outlet
+    hyetograph: Hyetograph;
+    cells?: number;               // Number of cells along the flow path (default 50)
+    courant?: number;             // Courant number (default 0.8)
+    outputInterval?: number;      // Output spacing (min, default 1)
+    maxRecession?: number;        // Maximum simulated time after rain stops (min, default 1440)
+}
+
+export interface OverlandFlowResult {
+    x: number[];              // Cell centres (m)
+    time: number[];           // Output times (min)
+    depth: number[][];        // Depth h [time][x] (mm)
+    discharge: number[][];    // Discharge Q [time][x] (L/s)
+    outletDischarge: number[]; // Outlet Q(t) (L/s)
+    peakDischarge: number;    // Peak outlet Q (L/s)
+    timeToPeak: number;       // Time of peak outlet Q (min)
+    rainVolume: number;       // Rain volume on the plane (m³)
+    outflowVolume: number;    // Volume leaving the outlet (m³)
+}
+
+const M = 5 / 3;
+const DEFAULT_CELLS = 50;
+const DEFAULT_COURANT = 0.8;
+const RECESSION_THRESHOLD = 0.01; // Stop once outlet Q < 1% of peak after rain
+
+// ============ Solver ============
+
+/**
+ * Solve the kinematic wave equation for a hyetograph on a (non-uniform) plane
+ */
+export function solveKinematicWave(params: OverlandFlowParams): OverlandFlowResult {
+    const { length, width, hyetograph } = params;
+    const cells = params.cells ?? DEFAULT_CELLS;
+    const courant = params.courant ?? DEFAULT_COURANT;
+    const outputStep = (params.outputInterval ?? 1) * 60;
+    const maxRecession = (params.maxRecession ?? 1440) * 60;
+
+    if (length <= 0 || width <= 0 || cells < 2) {
+        throw new Error('Kinematic wave solver: length, width and cells must be positive');
+    }
+    if (hyetograph.interval <= 0 || hyetograph.intensity.length === 0) {
+        throw new Error('Kinematic wave solver: hyetograph is empty');
+    }
+
+    const dx = length / cells;
+    const x = Array.from({ length: cells }, (_, j) => (j + 0.5) * dx);
+    const slope = sampleProfile(params.slope, x, length);
+    const manningN = sampleProfile(params.manningN, x, length);
+    const alpha = slope.map((s, j) => Math.sqrt(Math.max(s, 1e-6)) / manningN[j]);
+
+    const blockSeconds = hyetograph.interval * 60;
+    const rainEnd = blockSeconds * hyetograph.intensity.length;
+    const rainAt = (t: number) => {
+        const block = Math.floor(t / blockSeconds);
+        return block < hyetograph.intensity.length ? hyetograph.intensity[block] / (1000 * 3600) : 0;
+    };
+
+    let h = new Array<number>(cells).fill(0);
+    const q = new Array<number>(cells).fill(0);
+
+    const result: OverlandFlowResult = {
+        x, time: [], depth: [], discharge: [], outletDischarge: [],
+        peakDischarge: 0, timeToPeak: 0, rainVolume: 0, outflowVolume: 0,
+    };
+    const record = (t: number) => {
+        const Q = q.map(v => v * width * 1000);
+        result.time.push(t / 60);
+        result.depth.push(h.map(v => v * 1000));
+        result.discharge.push(Q);
+        result.outletDischarge.push(Q[cells - 1]);
+        if (Q[cells - 1] > result.peakDischarge) {
+            result.peakDischarge = Q[cells - 1];
+            result.timeToPeak = t / 60;
+        }
+    };
+
+    let t = 0;
+    let nextOutput = outputStep;
+    record(0);
+
+    while (t < rainEnd + maxRecession) {
+        const r = rainAt(t);
+        const nextRainChange = t < rainEnd ? (Math.floor(t / blockSeconds) + 1) * blockSeconds : Infinity;
+        let dt = Math.min(nextOutput - t, nextRainChange - t);
+
+        // CFL: wave celerity c = α·m·h^(m−1), with the rain of the step added so
+        // the first step on a dry plane (c = 0) is limited as well
+        let cMax = 0;
+        for (let j = 0; j < cells; j++) {
+            cMax = Math.max(cMax, alpha[j] * M * Math.pow(h[j] + r * dt, M - 1));
+        }
+        if (cMax > 0) dt = Math.min(dt, courant * dx / cMax);
+        const next = new Array<number>(cells);
+        for (let j = 0; j < cells; j++) {
+            const inflow = j > 0 ? q[j - 1] : 0;
+            next[j] = Math.max(0, h[j] + dt * (r - (q[j] - inflow) / dx));
+        }
+
+        result.rainVolume += r * dt * length * width;
+        result.outflowVolume += q[cells - 1] * dt * width;
+
+        h = next;
+        for (let j = 0; j < cells; j++) q[j] = alpha[j] * Math.pow(h[j], M);
+        t += dt;
+
+        if (t >= nextOutput - 1e-9) {
+            record(t);
+            nextOutput += outputStep;
+            const outletQ = result.outletDischarge[result.outletDischarge.length - 1];
+            if (t >= rainEnd && outletQ <= RECESSION_THRESHOLD * result.peakDischarge) break;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Interpolate a constant value or an equally spaced profile onto cell centres
+ */
+function sampleProfile(profile: number | number[], x: number[], length: number): number[] {
+    if (typeof profile === 'number') return x.map(() => profile);
+    if (profile.length === 0) throw new Error('Kinematic wave solver: empty slope / roughness profile');
+    if (profile.length === 1) return x.map(() => profile[0]);
+
+    const spacing = length / (profile.length - 1);
+    return x.map(xi => {
+        const pos = xi / spacing;
+        const i = Math.min(Math.floor(pos), profile.length - 2);
+        const w = pos - i;
+        return profile[i] + (profile[i + 1] - profile[i]) * w;
+    });
+}
@@ -0,0 +1,82 @@
+/**
+ * Monte Carlo Dropout Uncertainty
+ *
+ * Keeps dropout active at inference and evaluates the network repeatedly;
+ * the spread of the sampled outputs estimates the predictive uncertainty
+ * (Gal & Ghahramani, 2016). Yields mean, standard deviation and an
+ * empirical central interval per input row.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { denormalizeOutput } from './pinnConstants';
+
+export interface PredictionInterval {
+    mean: number;   // Mean discharge over all samples (L/s)
+    std: number;    // Standard deviation (L/s)
+    lower: number;  // Lower interval bound (L/s)
+    upper: number;  // Upper interval bound (L/s)
+    level: number;  // Interval coverage (e.g. 0.9)
+}
+
+export const MC_SAMPLES = 50;
+export const INTERVAL_LEVEL = 0.9;
+
+/**
+ * Sample the network with dropout active
+ *
+ * @param model - Network containing dropout layers
+ * @param inputs - Normalized inputs [rows, PINN_INPUTS.length]
+ * @param samples - Forward passes per row
+ * @returns Discharge samples in L/s, indexed [row][sample]
+ */
+export function sampleMCDropout(
+    model: tf.LayersModel,
+    inputs: tf.Tensor2D,
+    samples: number = MC_SAMPLES,
+): number[][] {
+    const rows = inputs.shape[0];
+    // One batched pass: every row repeated `samples` times, each with its own dropout mask
+    const values = tf.tidy(() => {
+        const tiled = tf.tile(inputs, [samples, 1]);
+        return (model.apply(tiled, { training: true }) as tf.Tensor).dataSync();
+    });
+
+    return Array.from({ length: rows }, (_, row) =>
+        Array.from({ length: samples }, (_, s) => Math.max(0, denormalizeOutput(values[s * rows + row]))),
+    );
+}
+
+/**
+ * Mean, standard deviation and central interval of a sample set
+ */
+export function summarizeSamples(values: number[], level: number = INTERVAL_LEVEL): PredictionInterval {
+    const sorted = [...values].sort((a, b) => a - b);
+    const n = sorted.length;
+    const mean = sorted.reduce((sum, v) => sum + v, 0) / n;
+    const variance = n > 1 ? sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1) : 0;
+    const tail = (1 - level) / 2;
+
+    return {
+        mean,
+        std: Math.sqrt(variance),
+        lower: quantile(sorted, tail),
+        upper: quantile(sorted, 1 - tail),
+        level,
+    };
+}
+
+/**
+ * Confidence (0-1) from the relative spread: 1 − coefficient of variation
+ */
+export function confidenceFromInterval(interval: PredictionInterval): number {
+    if (interval.mean <= 0) return interval.std > 0 ? 0 : 1;
+    return Math.min(1, Math.max(0, 1 - interval.std / interval.mean));
+}
+
+/** Linear interpolation between order statistics of sorted values */
+function quantile(sorted: number[], p: number): number {
+    const pos = (sorted.length - 1) * p;
+    const i = Math.floor(pos);
+    const w = pos - i;
+    return i + 1 < sorted.length ? sorted[i] * (1 - w) + sorted[i + 1] * w : sorted[i];
+}
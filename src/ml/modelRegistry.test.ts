@@ -0,0 +1,181 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+import { buildManifest, PINN_INPUTS, validateManifest } from './pinnManifest';
+import { NORMALIZATION } from './pinnConstants';
+import {
+    disposeModel,
+    getModel,
+    getModelManifest,
+    getModelVersion,
+    getSiteModel,
+    loadModel,
+    setModel,
+    setSiteModel,
+} from './modelRegistry';
+import type { SiteModelInfo } from './siteModelStore';
+
+// Lets a test hold the shipped weights in flight
+vi.mock('@tensorflow/tfjs', async importOriginal => ({
+    ...await importOriginal<typeof import('@tensorflow/tfjs')>(),
+    loadLayersModel: vi.fn(),
+}));
+import { getHybridPrediction, runPINNBatch, runPINNInference } from './pinnInference';
+import { computeKinematicWaveAt, createPINNModel, type PINNInput } from './pinnModel';
+
+const MANIFEST = buildManifest('1.0.0', structuredClone(NORMALIZATION), { rmse: 1, mape: 1, samples: 10 });
+const INPUT: PINNInput = { x: 50, t: 30, rainfall: 100, slope: 0.02, manningN: 0.015, width: 30 };
+
+function serve(status: number, body: unknown = null): void {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(body === null ? null : JSON.stringify(body), { status })));
+}
+
+describe('validateManifest', () => {
+    it('accepts a manifest built for this normalization', () => {
+        expect(() => validateManifest(MANIFEST)).not.toThrow();
+    });
+
+    it('rejects a different input order', () => {
+        expect(() => validateManifest({ ...MANIFEST, inputs: [...PINN_INPUTS].reverse() })).toThrow(/input order/);
+    });
+
+    it('rejects a different output scale', () => {
+        expect(() => validateManifest({ ...MANIFEST, outputScale: 1 })).toThrow(/output scale/);
+    });
+
+    it('rejects training ranges beyond the normalization bounds', () => {
+        const trainingRanges = { ...MANIFEST.trainingRanges, t: { min: 0, max: 180 } };
+        expect(() => validateManifest({ ...MANIFEST, trainingRanges })).toThrow(/training range of 't'/);
+    });
+
+    it('rejects missing training ranges', () => {
+        const trainingRanges = structuredClone(MANIFEST.trainingRanges) as Partial<typeof MANIFEST.trainingRanges>;
+        delete trainingRanges.rainfall;
+        expect(() => validateManifest({ ...MANIFEST, trainingRanges: trainingRanges as typeof MANIFEST.trainingRanges }))
+            .toThrow(/training range of 'rainfall'/);
+    });
+
+    it('rejects a different normalization', () => {
+        const normalization = { ...MANIFEST.normalization, width: { min: 1, max: 10 } };
+        expect(() => validateManifest({ ...MANIFEST, normalization })).toThrow(/normalization of 'width'/);
+    });
+});
+
+describe('model registry', () => {
+    afterEach(() => {
+        disposeModel();
+        vi.unstubAllGlobals();
+    });
+
+    it('has no model when the manifest is missing', async () => {
+        serve(404);
+
+        expect(await loadModel()).toBe(false);
+        expect(getModelManifest()).toBeNull();
+        expect(getModelVersion()).toBeNull();
+    });
+
+    it('fetches the shipped model once for concurrent callers and remembers a refusal', async () => {
+        serve(404);
+
+        expect(await Promise.all([getModel(), getModel(), loadModel()])).toEqual([null, null, false]);
+        expect(await getModel()).toBeNull();
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('disposes the previous model when another is set', async () => {
+        const first = await createPINNModel();
+        const second = await createPINNModel();
+        setModel(first, MANIFEST);
+
+        setModel(second, MANIFEST);
+
+        expect(await getModel()).toBe(second);
+        expect(() => first.predict(tf.zeros([1, PINN_INPUTS.length]))).toThrow(/disposed/);
+    });
+
+    it('loads again after a network error', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => {
+            throw new TypeError('Failed to fetch');
+        }));
+
+        expect(await loadModel()).toBe(false);
+        expect(await loadModel()).toBe(false);
+        expect(fetch).toHaveBeenCalledTimes(2);
+
+        const single = await runPINNInference(INPUT);
+        expect(single.isPINNPrediction).toBe(false);
+        expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('loads again after a server error but remembers an invalid manifest', async () => {
+        serve(503);
+        await loadModel();
+        await loadModel();
+        expect(fetch).toHaveBeenCalledTimes(2);
+
+        serve(200, { ...MANIFEST, outputScale: 1 });
+        await loadModel();
+        await loadModel();
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps a site model set while the shipped model is still loading', async () => {
+        const shipped = await createPINNModel();
+        const site = await createPINNModel();
+        const info: SiteModelInfo = {
+            project: 'Test',
+            baseVersion: '1.0.0',
+            createdAt: new Date().toISOString(),
+            observations: 8,
+            heldOut: 2,
+            dropped: 0,
+            before: { rmse: 2, mape: 4, maxError: 3, samples: 2 },
+            after: { rmse: 1, mape: 2, maxError: 2, samples: 2 },
+        };
+        let release: (() => void) | null = null;
+        vi.mocked(tf.loadLayersModel).mockImplementationOnce(() => new Promise(resolve => {
+            release = () => resolve(shipped);
+        }));
+        serve(200, MANIFEST);
+
+        const pending = getModel();
+        await vi.waitFor(() => expect(release).not.toBeNull());
+        setSiteModel(site, MANIFEST, info);
+        release!();
+
+        expect(await pending).toBe(site);
+        expect(getSiteModel()).toBe(info);
+        expect(() => shipped.predict(tf.zeros([1, PINN_INPUTS.length]))).toThrow(/disposed/);
+    });
+
+    it('has no model when the manifest does not match this build', async () => {
+        serve(200, { ...MANIFEST, outputScale: 1 });
+
+        expect(await loadModel()).toBe(false);
+        expect(getModelManifest()).toBeNull();
+    });
+
+    it('refuses a model with a mismatched manifest', async () => {
+        const model = await createPINNModel();
+
+        expect(() => setModel(model, { ...MANIFEST, outputScale: 1 })).toThrow(/output scale/);
+        model.dispose();
+    });
+
+    it('uses the analytical solution without a trained model', async () => {
+        serve(404);
+        const analytical = computeKinematicWaveAt(INPUT).discharge;
+
+        const single = await runPINNInference(INPUT);
+        expect(single.isPINNPrediction).toBe(false);
+        expect(single.discharge).toBeCloseTo(analytical);
+
+        const hybrid = await getHybridPrediction(INPUT, 1500);
+        expect(hybrid.isPINNPrediction).toBe(false);
+        expect(hybrid.discharge).toBeCloseTo(analytical);
+
+        const batch = await runPINNBatch([INPUT]);
+        expect(batch.outOfDistribution[0]).toBe(1);
+        expect(batch.discharge[0]).toBeCloseTo(analytical, 3);
+    });
+});
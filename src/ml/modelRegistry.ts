@@ -0,0 +1,236 @@
+/**
+ * PINN Model Registry
+ *
+ * Single owner of the runoff PINN: selects the TF.js backend, loads the
+ * pre-trained weights together with their manifest, warms the model up and
+ * disposes it. Weights without a valid manifest are refused — there is then
+ * no PINN, and callers use the analytical solution. Network errors are not a
+ * refusal: the next call loads again. A model fine-tuned to site
+ * measurements can take the place of the shipped one. All inference uses the
+ * model held here.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { MANIFEST_FILE, PINN_INPUTS, validateManifest, type PINNManifest } from './pinnManifest';
+import { loadSiteModel, type SiteModelInfo } from './siteModelStore';
+
+const MODEL_BASE_URL = '/models/pinn_runoff';
+const MODEL_URL = `${MODEL_BASE_URL}/model.json`;
+const MANIFEST_URL = `${MODEL_BASE_URL}/${MANIFEST_FILE}`;
+
+/** Backends tried in order of preference */
+const BACKEND_PREFERENCE = ['webgl', 'cpu'];
+
+export interface LoadedPINN {
+    model: tf.LayersModel;
+    manifest: PINNManifest;
+}
+
+let loadedModel: tf.LayersModel | null = null;
+let modelManifest: PINNManifest | null = null;
+let loading: Promise<tf.LayersModel | null> | null = null;
+let weightsRefused = false;
+let generation = 0;  // Bumped whenever the held model changes, so a load still in flight does not replace it
+let backend: Promise<string> | null = null;
+let siteModel: SiteModelInfo | null = null;
+
+/**
+ * Manifest of the loaded pre-trained model, null while no trained model is loaded
+ */
+export function getModelManifest(): PINNManifest | null {
+    return modelManifest;
+}
+
+/**
+ * Version of the loaded model, null if no trained model is loaded
+ */
+export function getModelVersion(): string | null {
+    return modelManifest?.modelVersion ?? null;
+}
+
+/**
+ * Loaded model without triggering a load, null until loadModel() has completed
+ */
+export function getLoadedModel(): tf.LayersModel | null {
+    return loadedModel;
+}
+
+/**
+ * Select the first available backend of BACKEND_PREFERENCE (once)
+ */
+export function selectBackend(): Promise<string> {
+    backend ??= (async () => {
+        for (const name of BACKEND_PREFERENCE) {
+            try {
+                if (await tf.setBackend(name)) {
+                    await tf.ready();
+                    return name;
+                }
+            } catch {
+                // Backend not available here — try the next one
+            }
+        }
+        await tf.ready();
+        return tf.getBackend();
+    })();
+    return backend;
+}
+
+/**
+ * Get the PINN, loading it on first use
+ * Concurrent callers share one load. Resolves to null if no trained weights
+ * are available; the refusal is remembered until disposeModel(). Rejects on
+ * network errors, which are retried by the next call.
+ */
+export function getModel(): Promise<tf.LayersModel | null> {
+    if (loadedModel) return Promise.resolve(loadedModel);
+    if (weightsRefused) return Promise.resolve(null);
+    loading ??= performLoad().finally(() => {
+        loading = null;
+    });
+    return loading;
+}
+
+/**
+ * Load the PINN if not already loaded
+ *
+ * @returns Whether a trained model is available
+ */
+export async function loadModel(): Promise<boolean> {
+    try {
+        return await getModel() !== null;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Use a model loaded elsewhere (e.g. weights read from disk) instead of the shipped one
+ * Disposes the previously held model.
+ */
+export function setModel(model: tf.LayersModel, manifest: PINNManifest): void {
+    validateManifest(manifest);
+    if (model.inputs[0].shape[1] !== PINN_INPUTS.length) {
+        throw new Error(`PINN model expects ${model.inputs[0].shape[1]} inputs, not ${PINN_INPUTS.length}`);
+    }
+    if (loadedModel !== model) loadedModel?.dispose();
+    loadedModel = model;
+    modelManifest = manifest;
+    weightsRefused = false;
+    siteModel = null;
+    generation++;
+}
+
+/**
+ * Dispose the loaded model and its manifest; the next getModel() loads the shipped model again
+ */
+export function disposeModel(): void {
+    loadedModel?.dispose();
+    loadedModel = null;
+    modelManifest = null;
+    weightsRefused = false;
+    siteModel = null;
+    generation++;
+}
+
+/**
+ * Load a separate copy of the shipped model, e.g. as the base for fine-tuning
+ * The caller owns (and disposes) the returned model.
+ *
+ * @returns null if no trained weights are available
+ * @throws on network errors
+ */
+export async function loadBaseModel(): Promise<LoadedPINN | null> {
+    await selectBackend();
+    return tryLoadModel();
+}
+
+/**
+ * Site model currently used instead of the shipped model, null if none
+ */
+export function getSiteModel(): SiteModelInfo | null {
+    return siteModel;
+}
+
+/**
+ * Use a model fine-tuned to a site instead of the shipped model
+ */
+export function setSiteModel(model: tf.LayersModel, manifest: PINNManifest, info: SiteModelInfo): void {
+    setModel(model, manifest);
+    siteModel = info;
+}
+
+/**
+ * Use the site model stored for a project if there is one, the shipped model otherwise
+ * Storage errors (e.g. no IndexedDB) fall back to the shipped model.
+ *
+ * @returns Info of the site model in use, null for the shipped model
+ */
+export async function activateSiteModel(project: string): Promise<SiteModelInfo | null> {
+    if (siteModel?.project === project) return siteModel;
+
+    const stored = await loadSiteModel(project).catch(() => null);
+    if (stored) {
+        setSiteModel(stored.model, stored.manifest, stored.info);
+    } else if (siteModel) {
+        disposeModel();
+    }
+    return siteModel;
+}
+
+async function performLoad(): Promise<tf.LayersModel | null> {
+    const started = generation;
+    await selectBackend();
+    const loaded = await tryLoadModel();
+
+    // setModel() or disposeModel() ran meanwhile — keep what they left
+    if (started !== generation) {
+        loaded?.model.dispose();
+        return loadedModel;
+    }
+    if (!loaded) {
+        weightsRefused = true;
+        return null;
+    }
+    warmupModel(loaded.model);
+    loadedModel = loaded.model;
+    modelManifest = loaded.manifest;
+    return loaded.model;
+}
+
+/**
+ * Shipped manifest, null if it is missing or does not match this build
+ */
+async function fetchManifest(): Promise<PINNManifest | null> {
+    const response = await fetch(MANIFEST_URL);
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`PINN manifest could not be loaded (${response.status})`);
+    try {
+        const manifest = await response.json() as PINNManifest;
+        validateManifest(manifest);
+        return manifest;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Shipped weights and their manifest, null if the manifest is missing or does not match the weights
+ * Network errors are thrown.
+ */
+async function tryLoadModel(): Promise<LoadedPINN | null> {
+    const manifest = await fetchManifest();
+    if (!manifest) return null;
+    const model = await tf.loadLayersModel(MODEL_URL);
+    if (model.inputs[0].shape[1] !== manifest.inputs.length) {
+        model.dispose();
+        return null;
+    }
+    return { model, manifest };
+}
+
+function warmupModel(model: tf.LayersModel): void {
+    tf.tidy(() => {
+        model.predict(tf.zeros([1, PINN_INPUTS.length]));
+    });
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+import { computePDEResidual } from './pdeResiduals';
+import { NORMALIZATION, OUTPUT_SCALE } from './pinnConstants';
+
+type Field = (inputs: tf.Tensor2D) => tf.Tensor;
+
+/** Stands in for the network: maps normalized inputs to Q̂ through a closed-form field */
+class FieldLayer extends tf.layers.Layer {
+    static className = 'FieldLayer';
+    private readonly field: Field;
+
+    constructor(field: Field) {
+        super({});
+        this.field = field;
+    }
+
+    computeOutputShape(inputShape: tf.Shape | tf.Shape[]): tf.Shape {
+        return [(inputShape as tf.Shape)[0], 1];
+    }
+
+    call(inputs: tf.Tensor | tf.Tensor[]): tf.Tensor {
+        return this.field((Array.isArray(inputs) ? inputs[0] : inputs) as tf.Tensor2D);
+    }
+}
+
+function fieldModel(field: Field): tf.LayersModel {
+    const input = tf.input({ shape: [6] });
+    const output = new FieldLayer(field).apply(input) as tf.SymbolicTensor;
+    return tf.model({ inputs: input, outputs: output });
+}
+
+function column(inputs: tf.Tensor2D, index: number, key: keyof typeof NORMALIZATION): tf.Tensor {
+    const { min, max } = NORMALIZATION[key];
+    return inputs.slice([0, index], [-1, 1]).mul(max - min).add(min);
+}
+
+/** Rainfall in m/s */
+const rain = (inputs: tf.Tensor2D) => column(inputs, 2, 'rainfall').div(1000 * 3600);
+
+/** Unit discharge q (m²/s) over width W → network output Q̂ */
+const toOutput = (q: tf.Tensor, inputs: tf.Tensor2D) =>
+    q.mul(column(inputs, 5, 'width')).mul(1000 / OUTPUT_SCALE);
+
+/** Equilibrium profile q = r·x, reached once the whole plane contributes */
+const equilibrium: Field = inputs => toOutput(rain(inputs).mul(column(inputs, 0, 'x')), inputs);
+
+/** Rising limb away from the divide: h = r·t, q = α·h^(5/3) */
+const risingLimb: Field = inputs => {
+    const alpha = column(inputs, 3, 'slope').sqrt().div(column(inputs, 4, 'manningN'));
+    const depth = rain(inputs).mul(column(inputs, 1, 't').mul(60));
+    return toOutput(alpha.mul(depth.pow(5 / 3)), inputs);
+};
+
+// Normalized [x, t, r, S, n, W]
+const POINTS = tf.tensor2d([
+    [0.25, 0.5, 0.4, 0.1, 0.1, 0.2],
+    [0.5, 0.25, 0.8, 0.5, 0.3, 0.5],
+    [1.0, 0.75, 0.2, 0.9, 0.6, 1.0],
+]);
+
+function residualsOf(field: Field): number[] {
+    const model = fieldModel(field);
+    const residual = computePDEResidual(model, POINTS);
+    const values = Array.from(residual.dataSync());
+    residual.dispose();
+    model.dispose();
+    return values;
+}
+
+describe('computePDEResidual', () => {
+    it('vanishes for the analytical equilibrium profile', () => {
+        for (const value of residualsOf(equilibrium)) {
+            expect(Math.abs(value)).toBeLessThan(1e-4);
+        }
+    });
+
+    it('vanishes for the analytical rising limb', () => {
+        for (const value of residualsOf(risingLimb)) {
+            expect(Math.abs(value)).toBeLessThan(1e-3);
+        }
+    });
+
+    it('reports the rainfall excess of a profile carrying twice the equilibrium discharge', () => {
+        const residuals = residualsOf(inputs => equilibrium(inputs).mul(2));
+        const rainfall = Array.from(POINTS.slice([0, 2], [-1, 1]).dataSync());
+
+        residuals.forEach((value, i) => expect(value).toBeCloseTo(rainfall[i], 4));
+    });
+});
@@ -1,78 +1,192 @@
 /**
  * Saint-Venant PDE Residuals for PINN
- * 
+ *
  * Computes the residuals of the governing physical equations.
- * For this browser-based implementation, we rely on Physics-Supervised learning
- * (training on analytical solution) rather than direct PDE residual minimization,
- * while still maintaining auxiliary physical consistency checks.
+ * Overland flow is modelled by the kinematic wave approximation of the
+ * Saint-Venant equations with Manning closure:
+ *   ∂h/∂t + ∂q/∂x − r = 0,   q = α·h^m,   α = √S / n,   m = 5/3
+ * Derivatives of the network output are taken with TF.js autodiff at
+ * collocation points; boundary (x = 0) and initial (t = 0) conditions are
+ * enforced as additional loss terms.
  */
 
 import * as tf from '@tensorflow/tfjs';
+import { NORMALIZATION, OUTPUT_SCALE } from './pinnConstants';
+import { PINN_INPUTS } from './pinnManifest';
 
-const WIDTH = 10; // Assumed catchment width (m) for unit conversion
+const M = 5 / 3;
+const Q_EPSILON = 1e-9; // Unit discharge floor (m²/s) for dh/dq near dry conditions
+
+/** Characteristic rain rate (m/s) used to make the residual dimensionless */
+const RESIDUAL_SCALE = NORMALIZATION.rainfall.max / (1000 * 3600);
+
+export interface PhysicsLossWeights {
+    data: number;
+    residual: number;
+    boundary: number;
+    initial: number;
+}
+
+export const DEFAULT_LOSS_WEIGHTS: PhysicsLossWeights = {
+    data: 1.0,
+    residual: 0.1,
+    boundary: 0.5,
+    initial: 0.5,
+};
+
+export interface PhysicsLossTerms {
+    total: tf.Scalar;
+    data: tf.Scalar;
+    residual: tf.Scalar;
+    boundary: tf.Scalar;
+    initial: tf.Scalar;
+}
+
+/**
+ * Denormalize a normalized input column back to physical units
+ */
+function denormalizeColumn(inputs: tf.Tensor2D, col: number, key: keyof typeof NORMALIZATION): tf.Tensor {
+    const { min, max } = NORMALIZATION[key];
+    return inputs.slice([0, col], [-1, 1]).mul(max - min).add(min);
+}
+
+/**
+ * Compute the kinematic wave residual at collocation points
+ *
+ * Inputs are normalized [x̂, t̂, r̂, Ŝ, n̂, Ŵ]; the chain rule maps the network
+ * derivatives to SI units: ∂/∂x = ∂/∂x̂ / x_max, ∂/∂t = ∂/∂t̂ / (t_max·60).
+ * Returns the dimensionless residual (∂h/∂t + ∂q/∂x − r) / r_max per point.
+ */
+export function computePDEResidual(
+    model: tf.LayersModel,
+    inputs: tf.Tensor2D
+): tf.Tensor {
+    return tf.tidy(() => {
+        // ∂Q̂/∂(inputs) per row — rows are independent, so grad of the sum suffices
+        const predictSum = (x: tf.Tensor) => (model.apply(x) as tf.Tensor).sum();
+        const dQhat = tf.grad(predictSum)(inputs);
+        const Qhat = model.apply(inputs) as tf.Tensor;
+
+        // Network output Q̂ (normalized L/s over width W) → unit discharge q (m²/s)
+        const width = denormalizeColumn(inputs, 5, 'width');
+        const toUnitDischarge = tf.div(OUTPUT_SCALE / 1000, width);
+        const xRange = NORMALIZATION.x.max - NORMALIZATION.x.min;
+        const tRangeSeconds = (NORMALIZATION.t.max - NORMALIZATION.t.min) * 60;
+
+        const q = Qhat.mul(toUnitDischarge);
+        const dq_dx = dQhat.slice([0, 0], [-1, 1]).mul(toUnitDischarge).div(xRange);
+        const dq_dt = dQhat.slice([0, 1], [-1, 1]).mul(toUnitDischarge).div(tRangeSeconds);
+
+        // Manning closure h = (q/α)^(1/m) → ∂h/∂t = (1/m)·α^(−1/m)·q^(1/m − 1)·∂q/∂t
+        const slope = denormalizeColumn(inputs, 3, 'slope');
+        const manningN = denormalizeColumn(inputs, 4, 'manningN');
+        const alpha = slope.sqrt().div(manningN);
+        const dh_dq = alpha.pow(-1 / M).mul(q.add(Q_EPSILON).pow(1 / M - 1)).mul(1 / M);
+        const dh_dt = dh_dq.mul(dq_dt);
+
+        // Rainfall mm/hr → m/s
+        const rain = denormalizeColumn(inputs, 2, 'rainfall').div(1000 * 3600);
+
+        return dh_dt.add(dq_dx).sub(rain).div(RESIDUAL_SCALE);
+    });
+}
 
 /**
  * Compute the physics loss (PDE residuals)
- * 
- * NOTE: For this version, we are relying on Physics-Supervised learning (training on analytical solution)
- * rather than direct PDE residual minimization, due to TF.js browser limitations.
- * This function handles auxiliary physical constraints:
- * - Consistency between Q and Manning's Equation (implied depth)
+ * Mean squared kinematic wave residual over the collocation points.
  */
 export function computePhysicsLoss(
-    model: tf.Sequential,
+    model: tf.LayersModel,
+    inputs: tf.Tensor2D
+): tf.Scalar {
+    return tf.tidy(() => computePDEResidual(model, inputs).square().mean().asScalar());
+}
+
+/**
+ * Boundary condition loss: no inflow at the upstream edge, Q(x = 0, t) = 0
+ */
+export function computeBoundaryLoss(
+    model: tf.LayersModel,
+    inputs: tf.Tensor2D
+): tf.Scalar {
+    return tf.tidy(() => {
+        const upstream = tf.concat([tf.zerosLike(inputs.slice([0, 0], [-1, 1])), inputs.slice([0, 1], [-1, -1])], 1);
+        return (model.apply(upstream) as tf.Tensor).square().mean().asScalar();
+    });
+}
+
+/**
+ * Initial condition loss: dry plane before rain starts, Q(x, t = 0) = 0
+ */
+export function computeInitialConditionLoss(
+    model: tf.LayersModel,
     inputs: tf.Tensor2D
 ): tf.Scalar {
     return tf.tidy(() => {
-        // Split inputs
-        const slope = inputs.slice([0, 3], [-1, 1]); // col 3
-        const n = inputs.slice([0, 4], [-1, 1]); // col 4
-
-        // 1. Predict Q
-        const Q_pred = model.predict(inputs) as tf.Tensor; // L/s
-
-        // Convert Q to m³/s for physics calc
-        const Q_m3s = Q_pred.div(1000);
-
-        // 2. Invert Manning to get A (Area)
-        // Q = (1/n) * A * R^(2/3) * S^0.5
-        // A = (Q * n / (S^0.5 * Width^(2/3)))^(3/5) * Width
-        // Simplified for wide channel logic:
-        const S_sqrt = slope.sqrt();
-        const manning_term = Q_m3s.mul(n).div(WIDTH).div(S_sqrt.add(1e-6)); // add epsilon
-        const h = manning_term.pow(0.6); // ^ 3/5
-
-        // We calculate h to ensure the computational graph for h is valid,
-        // even if we don't explicitly penalize it yet (future expansion).
-        // This prevents "disconnected graph" errors if we add h-based losses later.
-        const nonPhysicalOutcome = h.less(0).cast('float32'); // Should be impossible with softplus Q
-
-        return nonPhysicalOutcome.mean().asScalar();
+        const initial = tf.concat([
+            inputs.slice([0, 0], [-1, 1]),
+            tf.zerosLike(inputs.slice([0, 1], [-1, 1])),
+            inputs.slice([0, 2], [-1, -1]),
+        ], 1);
+        return (model.apply(initial) as tf.Tensor).square().mean().asScalar();
     });
 }
 
+/**
+ * Combined PINN loss: supervised data term, PDE residual and BC / IC terms
+ *
+ * @param model - Network mapping normalized [x, t, r, S, n, W] to normalized Q
+ * @param inputs - Labelled inputs (normalized)
+ * @param targets - Labelled outputs (normalized)
+ * @param collocation - Collocation points for the residual and BC / IC terms (normalized)
+ * @param weights - Loss weights
+ */
+export function computePINNLoss(
+    model: tf.LayersModel,
+    inputs: tf.Tensor2D,
+    targets: tf.Tensor2D,
+    collocation: tf.Tensor2D,
+    weights: PhysicsLossWeights = DEFAULT_LOSS_WEIGHTS
+): PhysicsLossTerms {
+    const data = computeSupervisedPhysicsLoss(model, inputs, targets);
+    const residual = computePhysicsLoss(model, collocation);
+    const boundary = computeBoundaryLoss(model, collocation);
+    const initial = computeInitialConditionLoss(model, collocation);
+
+    const total = tf.tidy(() => data.mul(weights.data)
+        .add(residual.mul(weights.residual))
+        .add(boundary.mul(weights.boundary))
+        .add(initial.mul(weights.initial))
+        .asScalar());
+
+    return { total, data, residual, boundary, initial };
+}
+
+/**
+ * Uniform random collocation points in the normalized input space [0, 1]^6
+ */
+export function generateCollocationPoints(count: number, random: () => number = Math.random): tf.Tensor2D {
+    const values = Array.from({ length: count * PINN_INPUTS.length }, () => random());
+    return tf.tensor2d(values, [count, PINN_INPUTS.length]);
+}
+
 /**
  * Supervised Physics Loss
- * Enforces output to match Kinematic Wave analytical solution
+ * Enforces output to match Kinematic Wave analytical solution.
+ * Evaluated with dropout active so MC dropout at inference reflects the data fit.
  */
 export function computeSupervisedPhysicsLoss(
-    model: tf.Sequential,
+    model: tf.LayersModel,
     inputs: tf.Tensor2D,
     targets: tf.Tensor2D
 ): tf.Scalar {
     return tf.tidy(() => {
-        const predictions = model.predict(inputs) as tf.Tensor;
+        const predictions = model.apply(inputs, { training: true }) as tf.Tensor;
         const mse = tf.losses.meanSquaredError(targets, predictions);
 
-        // Add physical constraints penalties
-
-        // 1. Non-negativity (already handled by softplus, but good to reinforce)
+        // Non-negativity (already handled by softplus, but good to reinforce)
         const negativity = tf.relu(predictions.mul(-1));
 
-        // 2. Zero-at-start (t=0 => Q=0)
-        // We can mask this: find indices where t=0 and enforce Q=0
-        // (Handled by data distribution)
-
         return mse.add(negativity.mean()) as tf.Scalar;
     });
 }
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+    buildChecks,
+    computeErrorMetrics,
+    DEFAULT_BENCHMARK_THRESHOLDS,
+    createBenchmarkGrid,
+    runPINNBenchmark,
+    type BenchmarkBaseline,
+    type ErrorMetrics,
+} from './pinnBenchmark';
+import { buildManifest } from './pinnManifest';
+import { NORMALIZATION } from './pinnConstants';
+import { disposeModel, setModel } from './modelRegistry';
+import { createPINNModel } from './pinnModel';
+
+const metrics = (rmse: number, mape: number): ErrorMetrics => ({ rmse, mape, maxError: rmse, samples: 10 });
+
+const BASELINE: BenchmarkBaseline = {
+    modelVersion: '1.0.0',
+    analytical: metrics(2, 4),
+    numerical: metrics(2, 4),
+};
+
+describe('computeErrorMetrics', () => {
+    it('computes RMSE, MAPE and the largest error', () => {
+        const result = computeErrorMetrics([11, 18], [10, 20]);
+
+        expect(result.rmse).toBeCloseTo(Math.sqrt((1 + 4) / 2));
+        expect(result.mape).toBeCloseTo(10);
+        expect(result.maxError).toBe(2);
+    });
+});
+
+describe('buildChecks', () => {
+    it('only applies absolute limits without a baseline', () => {
+        const checks = buildChecks(metrics(2, 4), metrics(2, 4), DEFAULT_BENCHMARK_THRESHOLDS);
+
+        expect(checks).toHaveLength(4);
+        expect(checks.every(c => c.passed)).toBe(true);
+    });
+
+    it('fails a model that is worse than the shipped one beyond the tolerance', () => {
+        const checks = buildChecks(metrics(2, 5), metrics(2, 4), DEFAULT_BENCHMARK_THRESHOLDS, BASELINE);
+
+        expect(checks).toHaveLength(8);
+        expect(checks.filter(c => !c.passed).map(c => c.metric)).toEqual(['MAPE vs analytical (%) ≤ shipped v1.0.0']);
+    });
+
+    it('accepts a model within the tolerance of the shipped one', () => {
+        const checks = buildChecks(metrics(2.05, 4.1), metrics(2, 4), DEFAULT_BENCHMARK_THRESHOLDS, BASELINE);
+
+        expect(checks.every(c => c.passed)).toBe(true);
+    });
+
+    it('sets no limit for metrics the shipped model was not scored on', () => {
+        const baseline = { ...BASELINE, numerical: metrics(2, NaN) };
+        const checks = buildChecks(metrics(2, 4), metrics(2, 4), DEFAULT_BENCHMARK_THRESHOLDS, baseline);
+
+        expect(checks).toHaveLength(7);
+    });
+});
+
+describe('runPINNBenchmark', () => {
+    afterEach(() => disposeModel());
+
+    it('reports the baseline and gates on it', async () => {
+        setModel(await createPINNModel(), buildManifest('2.0.0', structuredClone(NORMALIZATION), { rmse: 1, mape: 1, samples: 10 }));
+        const grid = { length: [50], position: [0.37], t: [30], rainfall: [100], slope: [0.02], manningN: [0.015], width: [30] };
+
+        const report = await runPINNBenchmark({
+            grid,
+            thresholds: { mape: Infinity, rmse: Infinity, regression: 0, fallbacks: 0 },
+            baseline: { modelVersion: '1.0.0', analytical: metrics(0, 0), numerical: metrics(0, 0) },
+        });
+
+        expect(report.points).toHaveLength(1);
+        expect(report.points[0].x).toBeCloseTo(18.5);
+        expect(report.baseline?.modelVersion).toBe('1.0.0');
+        expect(report.checks).toHaveLength(9);
+        expect(report.passed).toBe(false);
+    });
+
+    it('fails when points fall back to the analytical solution', async () => {
+        const ranges = structuredClone(NORMALIZATION);
+        ranges.rainfall = { min: 0, max: 80 };
+        setModel(await createPINNModel(), buildManifest('2.0.0', ranges, { rmse: 1, mape: 1, samples: 10 }));
+        const grid = { length: [50], position: [0.37], t: [30], rainfall: [50, 100], slope: [0.02], manningN: [0.015], width: [30] };
+
+        const report = await runPINNBenchmark({
+            grid,
+            thresholds: { mape: Infinity, rmse: Infinity, regression: 0, fallbacks: 0 },
+        });
+
+        expect(report.fallbacks).toBe(1);
+        expect(report.checks[0]).toMatchObject({ metric: 'Analytical fallbacks (%)', value: 50, passed: false });
+        expect(report.passed).toBe(false);
+    });
+});
+
+describe('createBenchmarkGrid', () => {
+    it('places every point inside the training ranges and off the training lattice', () => {
+        const ranges = structuredClone(NORMALIZATION);
+        ranges.rainfall = { min: 20, max: 180 };
+        const grid = createBenchmarkGrid(ranges);
+
+        expect(grid.rainfall).toEqual([40, 80, 120, 160]);
+        expect(grid.t).toEqual([15, 45, 75, 105]);
+        expect(grid.t.some(t => t % 10 === 0)).toBe(false);
+        expect(grid.position.some(p => (p * 4) % 1 === 0)).toBe(false);
+        expect(Math.max(...grid.length)).toBeLessThan(ranges.x.max);
+    });
+});
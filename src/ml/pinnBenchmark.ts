@@ -0,0 +1,327 @@
+/**
+ * PINN Benchmark
+ *
+ * Evaluates the loaded PINN on a held-out grid over its training ranges,
+ * between the positions and times it was trained on, against the analytical
+ * kinematic wave solution and the finite-volume solver, reports error metrics
+ * and error maps by parameter region, and decides whether the model meets the
+ * accuracy and coverage thresholds required for shipping and is no worse than
+ * the currently shipped model.
+ */
+
+import { runPINNInference } from './pinnInference';
+import { computeKinematicWaveAt } from './pinnModel';
+import { solveKinematicWave } from './kinematicWaveSolver';
+import { getModelManifest, getModelVersion } from './modelRegistry';
+import { NORMALIZATION } from './pinnConstants';
+import type { InputRanges } from './pinnManifest';
+
+// ============ Types ============
+
+export interface BenchmarkGrid {
+    length: number[];    // Flow path lengths (m)
+    position: number[];  // Evaluation points along the flow path as fractions of L (snapped to solver cells)
+    t: number[];         // Times since start of sustained rain (whole min)
+    rainfall: number[];  // Rainfall intensities (mm/hr)
+    slope: number[];     // Surface slopes (m/m)
+    manningN: number[];  // Manning's n
+    width: number[];     // Catchment widths (m)
+}
+
+export type BenchmarkParameter = keyof BenchmarkGrid;
+
+export interface BenchmarkPoint extends Record<BenchmarkParameter, number> {
+    x: number;           // Evaluation point (m)
+    pinn: number;        // PINN discharge (L/s)
+    analytical: number;  // Analytical kinematic wave discharge (L/s)
+    numerical: number;   // Finite-volume solver discharge (L/s)
+    isPINNPrediction: boolean; // false where the PINN fell back to the analytical solution
+}
+
+export interface ErrorMetrics {
+    rmse: number;      // Root mean squared error (L/s)
+    mape: number;      // Mean absolute percentage error (%) over references ≥ MAPE_MIN_REFERENCE
+    maxError: number;  // Largest absolute error (L/s)
+    samples: number;
+}
+
+export interface ErrorMap {
+    rows: BenchmarkParameter;
+    columns: BenchmarkParameter;
+    rowValues: number[];
+    columnValues: number[];
+    mape: number[][];  // MAPE vs analytical per [row][column] (%), NaN without PINN predictions
+}
+
+export interface BenchmarkThresholds {
+    mape: number;  // Highest accepted MAPE (%)
+    rmse: number;  // Highest accepted RMSE (L/s)
+    regression: number; // Accepted relative worsening over the shipped model (0.05 = 5 %)
+    fallbacks: number;  // Highest accepted share of points answered by the analytical fallback (%)
+}
+
+/** Benchmark metrics recorded in the manifest of the shipped model */
+export interface BenchmarkBaseline {
+    modelVersion: string;
+    analytical: ErrorMetrics;
+    numerical: ErrorMetrics;
+}
+
+export interface BenchmarkCheck {
+    metric: string;
+    value: number;
+    limit: number;
+    passed: boolean;
+}
+
+export interface BenchmarkReport {
+    modelVersion: string | null;
+    createdAt: string;               // ISO timestamp
+    grid: BenchmarkGrid;
+    points: BenchmarkPoint[];
+    fallbacks: number;               // Points answered by the analytical fallback, excluded from the metrics and gated
+    analytical: ErrorMetrics;        // PINN vs analytical solution
+    numerical: ErrorMetrics;         // PINN vs finite-volume solver
+    referenceAgreement: ErrorMetrics; // Finite-volume solver vs analytical solution
+    errorMaps: ErrorMap[];
+    thresholds: BenchmarkThresholds;
+    baseline: BenchmarkBaseline | null; // Shipped model compared against, null for absolute limits only
+    checks: BenchmarkCheck[];
+    passed: boolean;
+}
+
+export interface BenchmarkOptions {
+    grid: BenchmarkGrid;
+    thresholds: BenchmarkThresholds;
+    baseline: BenchmarkBaseline | null;
+    onProgress?: (done: number, total: number) => void;
+    signal?: AbortSignal;  // Aborts between scenarios
+}
+
+export const DEFAULT_BENCHMARK_THRESHOLDS: BenchmarkThresholds = {
+    mape: 10,
+    rmse: 10,
+    regression: 0.05,
+    fallbacks: 0,
+};
+
+/** Parameter pairs of the error maps */
+const ERROR_MAPS: [BenchmarkParameter, BenchmarkParameter][] = [
+    ['rainfall', 'slope'],
+    ['length', 't'],
+    ['position', 't'],
+];
+
+/** References below this discharge (L/s) are excluded from MAPE */
+const MAPE_MIN_REFERENCE = 0.1;
+
+/** Output spacing of the numerical solver (min) */
+const SOLVER_OUTPUT_INTERVAL = 1;
+
+/**
+ * Evaluation points as fractions of L, between the training positions k·L/4
+ * (cell centres of the solver's default 50 cells)
+ */
+const BENCHMARK_POSITIONS = [0.37, 0.87];
+
+/** Benchmark times per training time range; cell centres fall between the training times, every 10 min over 0–120 min */
+const BENCHMARK_TIMES = 4;
+
+// ============ Grid ============
+
+/**
+ * Held-out benchmark grid over the training ranges of a model
+ * Cell centres of a regular grid: no point lies on a range edge or coincides
+ * with a Latin hypercube training scenario, the positions lie between the
+ * training positions k·L/4 and the times between the training sample times.
+ *
+ * @param ranges - Training ranges from the manifest of the model under test
+ */
+export function createBenchmarkGrid(ranges: InputRanges): BenchmarkGrid {
+    return {
+        length: cellCentres(ranges.x, 3),
+        position: BENCHMARK_POSITIONS,
+        t: cellCentres(ranges.t, BENCHMARK_TIMES).map(Math.round),
+        rainfall: cellCentres(ranges.rainfall, 4),
+        slope: cellCentres(ranges.slope, 3),
+        manningN: cellCentres(ranges.manningN, 3),
+        width: cellCentres(ranges.width, 3),
+    };
+}
+
+function cellCentres(range: { min: number; max: number }, n: number): number[] {
+    return Array.from({ length: n }, (_, i) => range.min + (range.max - range.min) * (i + 0.5) / n);
+}
+
+// ============ Benchmark ============
+
+/**
+ * Benchmark the loaded PINN against the analytical and numerical references
+ * Points the PINN does not answer (outside its training envelope) count
+ * against the fallback limit. With a baseline, the model must also not be
+ * worse than the shipped model by more than the regression tolerance.
+ */
+export async function runPINNBenchmark(options: Partial<BenchmarkOptions> = {}): Promise<BenchmarkReport> {
+    const grid = options.grid ?? createBenchmarkGrid(getModelManifest()?.trainingRanges ?? NORMALIZATION);
+    const thresholds = options.thresholds ?? DEFAULT_BENCHMARK_THRESHOLDS;
+    const baseline = options.baseline ?? null;
+    const points: BenchmarkPoint[] = [];
+
+    const scenarios = grid.length.flatMap(length => grid.rainfall.flatMap(rainfall => grid.slope.flatMap(slope =>
+        grid.manningN.flatMap(manningN => grid.width.map(width => ({ length, rainfall, slope, manningN, width }))))));
+
+    for (const [i, scenario] of scenarios.entries()) {
+        options.signal?.throwIfAborted();
+        const numerical = solveNumerical(scenario, grid.position, grid.t);
+        const { rainfall, slope, manningN, width } = scenario;
+
+        for (const [j, position] of grid.position.entries()) {
+            const x = numerical.x[j];
+            for (const [k, t] of grid.t.entries()) {
+                const input = { x, t, rainfall, slope, manningN, width };
+                const pinn = await runPINNInference(input);
+                points.push({
+                    ...scenario,
+                    position,
+                    t,
+                    x,
+                    pinn: pinn.discharge,
+                    analytical: computeKinematicWaveAt(input).discharge,
+                    numerical: numerical.discharge[j][k],
+                    isPINNPrediction: pinn.isPINNPrediction,
+                });
+            }
+        }
+        options.onProgress?.(i + 1, scenarios.length);
+    }
+
+    const predicted = points.filter(p => p.isPINNPrediction);
+    const fallbacks = points.length - predicted.length;
+    const analytical = computeErrorMetrics(predicted.map(p => p.pinn), predicted.map(p => p.analytical));
+    const numerical = computeErrorMetrics(predicted.map(p => p.pinn), predicted.map(p => p.numerical));
+    const checks = [
+        check('Analytical fallbacks (%)', points.length > 0 ? fallbacks / points.length * 100 : NaN, thresholds.fallbacks),
+        ...buildChecks(analytical, numerical, thresholds, baseline),
+    ];
+
+    return {
+        modelVersion: getModelVersion(),
+        createdAt: new Date().toISOString(),
+        grid,
+        points,
+        fallbacks,
+        analytical,
+        numerical,
+        referenceAgreement: computeErrorMetrics(points.map(p => p.numerical), points.map(p => p.analytical)),
+        errorMaps: ERROR_MAPS.map(([rows, columns]) => buildErrorMap(predicted, grid, rows, columns)),
+        thresholds,
+        baseline,
+        checks,
+        passed: checks.every(c => c.passed),
+    };
+}
+
+/**
+ * Discharge (L/s) of the finite-volume solver under sustained rain
+ *
+ * @returns Cell centre x nearest to each position, discharge per [position][time]
+ */
+function solveNumerical(
+    scenario: Omit<Record<BenchmarkParameter, number>, 'position' | 't'>,
+    positions: number[],
+    times: number[],
+): { x: number[]; discharge: number[][] } {
+    const rainDuration = Math.max(...times);
+    const result = solveKinematicWave({
+        ...scenario,
+        hyetograph: { interval: rainDuration, intensity: [scenario.rainfall] },
+        outputInterval: SOLVER_OUTPUT_INTERVAL,
+        maxRecession: 0,
+    });
+    const cells = positions.map(position => {
+        const dx = result.x[1] - result.x[0];
+        return Math.min(result.x.length - 1, Math.max(0, Math.round(position * scenario.length / dx - 0.5)));
+    });
+    return {
+        x: cells.map(cell => result.x[cell]),
+        discharge: cells.map(cell => times.map(t => {
+            const index = Math.min(Math.round(t / SOLVER_OUTPUT_INTERVAL), result.time.length - 1);
+            return result.discharge[index][cell];
+        })),
+    };
+}
+
+/**
+ * RMSE, MAPE and maximum absolute error of predictions against references
+ */
+export function computeErrorMetrics(predicted: number[], reference: number[]): ErrorMetrics {
+    let squaredError = 0;
+    let percentError = 0;
+    let percentCount = 0;
+    let maxError = 0;
+    predicted.forEach((p, i) => {
+        const error = Math.abs(p - reference[i]);
+        squaredError += error ** 2;
+        maxError = Math.max(maxError, error);
+        if (reference[i] >= MAPE_MIN_REFERENCE) {
+            percentError += error / reference[i];
+            percentCount++;
+        }
+    });
+
+    return {
+        rmse: predicted.length > 0 ? Math.sqrt(squaredError / predicted.length) : NaN,
+        mape: percentCount > 0 ? percentError / percentCount * 100 : NaN,
+        maxError: predicted.length > 0 ? maxError : NaN,
+        samples: predicted.length,
+    };
+}
+
+function buildErrorMap(
+    points: BenchmarkPoint[],
+    grid: BenchmarkGrid,
+    rows: BenchmarkParameter,
+    columns: BenchmarkParameter,
+): ErrorMap {
+    const rowValues = grid[rows];
+    const columnValues = grid[columns];
+    const mape = rowValues.map(row => columnValues.map(column => {
+        const cell = points.filter(p => p[rows] === row && p[columns] === column);
+        return computeErrorMetrics(cell.map(p => p.pinn), cell.map(p => p.analytical)).mape;
+    }));
+    return { rows, columns, rowValues, columnValues, mape };
+}
+
+/**
+ * Threshold checks, plus regression checks against the shipped model if a baseline is given
+ */
+export function buildChecks(
+    analytical: ErrorMetrics,
+    numerical: ErrorMetrics,
+    thresholds: BenchmarkThresholds,
+    baseline: BenchmarkBaseline | null = null,
+): BenchmarkCheck[] {
+    const checks = [
+        check('MAPE vs analytical (%)', analytical.mape, thresholds.mape),
+        check('RMSE vs analytical (L/s)', analytical.rmse, thresholds.rmse),
+        check('MAPE vs numerical (%)', numerical.mape, thresholds.mape),
+        check('RMSE vs numerical (L/s)', numerical.rmse, thresholds.rmse),
+    ];
+    if (!baseline) return checks;
+
+    const shipped = `shipped v${baseline.modelVersion}`;
+    const limit = (value: number) => value * (1 + thresholds.regression);
+    const regressions = [
+        check(`MAPE vs analytical (%) ≤ ${shipped}`, analytical.mape, limit(baseline.analytical.mape)),
+        check(`RMSE vs analytical (L/s) ≤ ${shipped}`, analytical.rmse, limit(baseline.analytical.rmse)),
+        check(`MAPE vs numerical (%) ≤ ${shipped}`, numerical.mape, limit(baseline.numerical.mape)),
+        check(`RMSE vs numerical (L/s) ≤ ${shipped}`, numerical.rmse, limit(baseline.numerical.rmse)),
+    ];
+    // A metric the shipped model could not be scored on (NaN) sets no limit
+    return [...checks, ...regressions.filter(c => Number.isFinite(c.limit))];
+}
+
+function check(metric: string, value: number, limit: number): BenchmarkCheck {
+    // NaN (no PINN predictions) fails
+    return { metric, value, limit, passed: value <= limit };
+}
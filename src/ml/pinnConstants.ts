@@ -6,9 +6,10 @@
 export const NORMALIZATION = {
     x: { min: 0, max: 200 },
     t: { min: 0, max: 120 },
-    rainfall: { min: 0, max: 150 },
+    rainfall: { min: 0, max: 250 },
     slope: { min: 0.001, max: 0.2 },
     manningN: { min: 0.01, max: 0.1 },
+    width: { min: 5, max: 100 },
 };
 
 export function normalize(value: number, key: keyof typeof NORMALIZATION): number {
@@ -18,7 +19,10 @@ export function normalize(value: number, key: keyof typeof NORMALIZATION): numbe
     return (clamped - min) / (max - min);
 }
 
-export const OUTPUT_SCALE = 200;
+export const OUTPUT_SCALE = 1000;
+
+/** Dropout rate of the hidden layers, kept active at inference for MC dropout */
+export const DROPOUT_RATE = 0.1;
 
 export function normalizeOutput(output: number): number {
     return output / OUTPUT_SCALE;
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+import { fineTunePINN, splitByTime, type PINNObservation } from './pinnFineTuning';
+import { computeKinematicWaveAt, createPINNModel } from './pinnModel';
+import { buildManifest, validateManifest } from './pinnManifest';
+import { NORMALIZATION } from './pinnConstants';
+
+const PLANE = { x: 50, rainfall: 100, slope: 0.02, manningN: 0.015, width: 30 };
+
+/** Analytical outlet discharge every 5 min, listed latest first */
+const OBSERVATIONS: PINNObservation[] = Array.from({ length: 10 }, (_, i) => {
+    const input = { ...PLANE, t: 5 * (10 - i) };
+    return { input, discharge: computeKinematicWaveAt(input).discharge };
+});
+
+const BASE = buildManifest('1.0.0', structuredClone(NORMALIZATION), { rmse: 1, mape: 1, samples: 10 });
+
+describe('splitByTime', () => {
+    it('holds out the latest share of the series', () => {
+        const { observations, heldOut } = splitByTime(OBSERVATIONS, 0.2);
+
+        expect(observations.map(o => o.input.t)).toEqual([5, 10, 15, 20, 25, 30, 35, 40]);
+        expect(heldOut.map(o => o.input.t)).toEqual([45, 50]);
+    });
+
+    it('keeps at least one observation on each side', () => {
+        const three = OBSERVATIONS.slice(0, 3);
+
+        expect(splitByTime(three, 0.2).heldOut).toHaveLength(1);
+        expect(splitByTime(three, 0.9).observations).toHaveLength(1);
+        expect(() => splitByTime(OBSERVATIONS.slice(0, 1), 0.2)).toThrow(/at least two/);
+    });
+});
+
+describe('fineTunePINN', () => {
+    it('scores the model on the held-out measurements only', async () => {
+        const model = await createPINNModel();
+        const tensors = tf.memory().numTensors;
+
+        const result = await fineTunePINN(model, BASE, OBSERVATIONS, { epochs: 2, collocationPoints: 16 });
+
+        expect(result.observations).toBe(8);
+        expect(result.heldOut).toBe(2);
+        expect(result.dropped).toBe(0);
+        expect(result.before.samples).toBe(2);
+        expect(result.after.samples).toBe(2);
+        expect(tf.memory().numTensors).toBe(tensors);
+        model.dispose();
+    });
+
+    it('drops measurements outside the training envelope and records its own manifest', async () => {
+        const model = await createPINNModel();
+        const base = structuredClone(BASE);
+        base.trainingRanges.t = { min: 0, max: 40 };
+
+        const result = await fineTunePINN(model, base, OBSERVATIONS, { epochs: 1, collocationPoints: 16 });
+
+        expect(result.dropped).toBe(2);
+        expect(result.observations + result.heldOut).toBe(8);
+        expect(result.manifest.modelVersion).toBe('1.0.0-site');
+        expect(result.manifest.trainingRanges.t).toEqual({ min: 5, max: 40 });
+        expect(result.manifest.trainingRanges.rainfall).toEqual({ min: 100, max: 100 });
+        expect(result.manifest.validation).toEqual({ rmse: result.after.rmse, mape: result.after.mape, samples: 2 });
+        expect(() => validateManifest(result.manifest)).not.toThrow();
+        model.dispose();
+    });
+
+    it('refuses fine-tuning with fewer than two measurements inside the envelope', async () => {
+        const model = await createPINNModel();
+        const base = structuredClone(BASE);
+        base.trainingRanges.t = { min: 0, max: 5 };
+
+        await expect(fineTunePINN(model, base, OBSERVATIONS, { epochs: 1 })).rejects.toThrow(/1 of 10 are/);
+        model.dispose();
+    });
+});
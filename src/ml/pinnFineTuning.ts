@@ -0,0 +1,173 @@
+/**
+ * PINN Fine-Tuning
+ *
+ * Adapts the last dense layers of a trained PINN to measured discharges of a
+ * site. The PDE residual and boundary / initial condition losses act as a
+ * regulariser, so the adapted model stays physically consistent between the
+ * measurements. Measurements outside the training envelope of the base model
+ * are dropped, the latest part of the rest is held out of training and
+ * scores the model before and after. Environment-agnostic: runs in the
+ * browser, a worker or Node.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { normalize, normalizeOutput, denormalizeOutput } from './pinnConstants';
+import { buildManifest, checkEnvelope, PINN_INPUTS, type InputRanges, type PINNManifest } from './pinnManifest';
+import { computePINNLoss, generateCollocationPoints } from './pdeResiduals';
+import { computeErrorMetrics, type ErrorMetrics } from './pinnBenchmark';
+import { createRandom, DEFAULT_SEED } from './random';
+import type { PINNInput } from './pinnModel';
+
+// ============ Types ============
+
+export interface PINNObservation {
+    input: PINNInput;
+    discharge: number;  // Measured discharge Q (L/s)
+}
+
+export interface FineTuningOptions {
+    epochs: number;
+    learningRate: number;
+    trainableLayers: number;    // Dense layers adapted, counted from the output
+    physicsWeight: number;      // Weight of the PDE residual and BC / IC terms relative to the data term
+    collocationPoints: number;  // Collocation points per epoch
+    holdout: number;            // Share of the latest observations (by time) held out for scoring
+    seed: number;               // Seed of the collocation points
+    onEpochEnd?: (epoch: number, loss: number) => void;
+    signal?: AbortSignal;       // Aborts between epochs
+}
+
+export interface FineTuningResult {
+    model: tf.LayersModel;
+    manifest: PINNManifest; // Manifest of the adapted model: ranges of its measurements, held-out error as validation
+    before: ErrorMetrics;  // Error on the held-out measurements before fine-tuning
+    after: ErrorMetrics;   // Error on the held-out measurements after fine-tuning
+    observations: number;  // Measurements trained on
+    heldOut: number;       // Measurements held out for scoring
+    dropped: number;       // Measurements outside the training envelope of the base model, not used
+}
+
+export const DEFAULT_FINE_TUNING_OPTIONS: FineTuningOptions = {
+    epochs: 100,
+    learningRate: 0.0005,
+    trainableLayers: 2,
+    physicsWeight: 0.1,
+    collocationPoints: 128,
+    holdout: 0.2,
+    seed: DEFAULT_SEED,
+};
+
+// ============ Fine-Tuning ============
+
+/**
+ * Fine-tune a PINN to site measurements (in place)
+ * The training observations form one batch; earlier layers keep their weights.
+ * The adapted model is only vouched for where it was measured: its manifest
+ * records the ranges of the measurements used, not those of the base model.
+ *
+ * @param manifest - Manifest of the base model
+ * @throws if fewer than two measurements lie inside the training envelope
+ */
+export async function fineTunePINN(
+    model: tf.LayersModel,
+    manifest: PINNManifest,
+    allObservations: PINNObservation[],
+    options: Partial<FineTuningOptions> = {},
+): Promise<FineTuningResult> {
+    const opts = { ...DEFAULT_FINE_TUNING_OPTIONS, ...options };
+    // Inputs outside the envelope would be clamped by normalize() and train the wrong point
+    const usable = allObservations.filter(o => !checkEnvelope(o.input, manifest.trainingRanges).outOfDistribution);
+    if (usable.length < 2) {
+        throw new Error(
+            `Fine-tuning needs at least two observations inside the training envelope of PINN ${manifest.modelVersion}, ` +
+            `${usable.length} of ${allObservations.length} are`,
+        );
+    }
+    const { observations, heldOut } = splitByTime(usable, opts.holdout);
+
+    const dense = model.layers.filter(layer => layer.getClassName() === 'Dense');
+    const varList = dense.slice(-opts.trainableLayers)
+        .flatMap(layer => layer.trainableWeights.map(weight => weight.read() as tf.Variable));
+
+    const inputs = toInputTensor(observations);
+    const targets = tf.tensor2d(observations.map(o => [normalizeOutput(o.discharge)]), [observations.length, 1]);
+    const heldOutInputs = toInputTensor(heldOut);
+    const measured = heldOut.map(o => o.discharge);
+    const weights = { data: 1, residual: opts.physicsWeight, boundary: opts.physicsWeight, initial: opts.physicsWeight };
+    const random = createRandom(opts.seed);
+    const optimizer = tf.train.adam(opts.learningRate);
+
+    try {
+        const before = evaluate(model, heldOutInputs, measured);
+
+        for (let epoch = 1; epoch <= opts.epochs; epoch++) {
+            opts.signal?.throwIfAborted();
+            const collocation = generateCollocationPoints(opts.collocationPoints, random);
+            const loss = optimizer.minimize(
+                () => computePINNLoss(model, inputs, targets, collocation, weights).total,
+                true,
+                varList,
+            );
+            const value = loss ? loss.dataSync()[0] : NaN;
+            collocation.dispose();
+            loss?.dispose();
+            opts.onEpochEnd?.(epoch, value);
+            await tf.nextFrame();
+        }
+
+        const after = evaluate(model, heldOutInputs, measured);
+        return {
+            model,
+            manifest: buildManifest(
+                `${manifest.modelVersion}-site`,
+                computeObservationRanges(usable),
+                { rmse: after.rmse, mape: after.mape, samples: after.samples },
+            ),
+            before,
+            after,
+            observations: observations.length,
+            heldOut: heldOut.length,
+            dropped: allObservations.length - usable.length,
+        };
+    } finally {
+        tf.dispose([inputs, targets, heldOutInputs]);
+        optimizer.dispose();
+    }
+}
+
+/**
+ * Split observations into training and the latest `holdout` share by time
+ * At least one observation lands on each side.
+ */
+export function splitByTime(
+    observations: PINNObservation[],
+    holdout: number,
+): { observations: PINNObservation[]; heldOut: PINNObservation[] } {
+    if (observations.length < 2) throw new Error('Fine-tuning needs at least two observations');
+    const sorted = [...observations].sort((a, b) => a.input.t - b.input.t);
+    const heldOut = Math.min(sorted.length - 1, Math.max(1, Math.round(sorted.length * holdout)));
+    return { observations: sorted.slice(0, -heldOut), heldOut: sorted.slice(-heldOut) };
+}
+
+function computeObservationRanges(observations: PINNObservation[]): InputRanges {
+    const entries = PINN_INPUTS.map(key => {
+        const values = observations.map(o => o.input[key]);
+        return [key, { min: Math.min(...values), max: Math.max(...values) }];
+    });
+    return Object.fromEntries(entries) as InputRanges;
+}
+
+function toInputTensor(observations: PINNObservation[]): tf.Tensor2D {
+    return tf.tensor2d(
+        observations.map(o => PINN_INPUTS.map(key => normalize(o.input[key], key))),
+        [observations.length, PINN_INPUTS.length],
+    );
+}
+
+/**
+ * Error of the (deterministic) model output against the measurements
+ */
+function evaluate(model: tf.LayersModel, inputs: tf.Tensor2D, measured: number[]): ErrorMetrics {
+    const predicted = tf.tidy(() => (model.predict(inputs) as tf.Tensor).dataSync());
+    return computeErrorMetrics(Array.from(predicted, denormalizeOutput), measured);
+}
@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+import { buildManifest } from './pinnManifest';
+import { NORMALIZATION } from './pinnConstants';
+import { disposeModel, setModel } from './modelRegistry';
+import { estimatePINNInterval, runPINNBatch, type PINNGridSpec } from './pinnInference';
+import { computeKinematicWaveAt, createPINNModel, type PINNInput } from './pinnModel';
+
+const MANIFEST = buildManifest('1.0.0', structuredClone(NORMALIZATION), { rmse: 1, mape: 1, samples: 10 });
+const INPUT: PINNInput = { x: 50, t: 30, rainfall: 100, slope: 0.02, manningN: 0.015, width: 30 };
+
+/** Linear network predicting Q̂ = c·W, i.e. a fixed unit-width discharge */
+function unitDischargeModel(c: number): tf.Sequential {
+    const { min, max } = NORMALIZATION.width;
+    const kernel = tf.tensor2d([[0], [0], [0], [0], [0], [c * (max - min)]]);
+    const bias = tf.tensor1d([c * min]);
+    const model = tf.sequential({ layers: [tf.layers.dense({ units: 1, inputShape: [6], weights: [kernel, bias] })] });
+    tf.dispose([kernel, bias]);
+    return model;
+}
+
+describe('estimatePINNInterval', () => {
+    afterEach(() => disposeModel());
+
+    it('gives no interval without a trained model', () => {
+        expect(estimatePINNInterval(INPUT)).toBeNull();
+    });
+
+    it('gives an interval around the mean for a model with a manifest', async () => {
+        setModel(await createPINNModel(), MANIFEST);
+
+        const interval = estimatePINNInterval(INPUT);
+        expect(interval).not.toBeNull();
+        expect(interval!.lower).toBeLessThanOrEqual(interval!.mean);
+        expect(interval!.upper).toBeGreaterThanOrEqual(interval!.mean);
+    });
+
+    it('gives no interval outside the training envelope', async () => {
+        setModel(await createPINNModel(), MANIFEST);
+
+        expect(estimatePINNInterval({ ...INPUT, rainfall: 1000 })).toBeNull();
+    });
+});
+
+describe('runPINNBatch', () => {
+    afterEach(() => disposeModel());
+
+    const GRID: PINNGridSpec = { x: [20, 50, 80], t: [10, 30], rainfall: [60, 120], slope: 0.02, manningN: 0.015, width: 30 };
+
+    it('lays out a grid with x fastest, then t and the parameters', async () => {
+        setModel(await createPINNModel(), MANIFEST);
+        const rows: PINNInput[] = [];
+        for (const rainfall of [60, 120]) {
+            for (const t of [10, 30]) {
+                for (const x of [20, 50, 80]) rows.push({ ...INPUT, x, t, rainfall });
+            }
+        }
+
+        const fromGrid = await runPINNBatch(GRID);
+        const fromRows = await runPINNBatch(rows);
+
+        expect(fromGrid.discharge).toHaveLength(12);
+        expect(fromGrid).toEqual(fromRows);
+    });
+
+    it('gives the same values for any chunk size and reports progress', async () => {
+        setModel(await createPINNModel(), MANIFEST);
+        const progress: number[] = [];
+
+        const whole = await runPINNBatch(GRID);
+        const chunked = await runPINNBatch(GRID, { chunkSize: 5, onProgress: done => progress.push(done) });
+
+        expect(chunked).toEqual(whole);
+        expect(progress).toEqual([5, 10, 12]);
+    });
+
+    it('flags rows outside the training envelope and returns the analytical value', async () => {
+        setModel(await createPINNModel(), MANIFEST);
+        const outside = { ...INPUT, rainfall: 1000 };
+
+        const batch = await runPINNBatch([INPUT, outside]);
+
+        expect(Array.from(batch.outOfDistribution)).toEqual([0, 1]);
+        expect(batch.discharge[1]).toBeCloseTo(computeKinematicWaveAt(outside).discharge, 2);
+    });
+
+    it('stops when aborted', async () => {
+        setModel(await createPINNModel(), MANIFEST);
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(runPINNBatch(GRID, { signal: controller.signal })).rejects.toThrow();
+    });
+});
+
+describe('catchment width', () => {
+    afterEach(() => disposeModel());
+
+    it('scales the analytical discharge with the width and keeps the depth', () => {
+        const narrow = computeKinematicWaveAt({ ...INPUT, width: 10 });
+        const wide = computeKinematicWaveAt({ ...INPUT, width: 40 });
+
+        expect(wide.discharge).toBeCloseTo(4 * narrow.discharge, 9);
+        expect(wide.depth).toBeCloseTo(narrow.depth, 9);
+        expect(wide.velocity).toBeCloseTo(narrow.velocity, 9);
+    });
+
+    it('back-calculates depth and velocity on the input width', async () => {
+        setModel(unitDischargeModel(0.002), MANIFEST);
+
+        const batch = await runPINNBatch([{ ...INPUT, width: 10 }, { ...INPUT, width: 40 }]);
+
+        expect(Array.from(batch.outOfDistribution)).toEqual([0, 0]);
+        expect(batch.discharge[1]).toBeCloseTo(4 * batch.discharge[0], 3);
+        expect(batch.depth[1]).toBeCloseTo(batch.depth[0], 4);
+        expect(batch.velocity[1]).toBeCloseTo(batch.velocity[0], 4);
+    });
+});
@@ -1,148 +1,282 @@
 /**
  * PINN Inference Engine (Browser / Edge)
- * 
- * Handles loading the pre-trained Physics-Informed Neural Network
- * and running high-speed inference on the client device.
+ *
+ * Runs the Physics-Informed Neural Network held by the model registry on the
+ * client device: single scenarios with MC dropout uncertainty, batched grids
+ * and the hybrid PINN / Rational Method prediction.
  */
 
 import * as tf from '@tensorflow/tfjs';
-import { createPINNModel, type PINNInput, type PINNOutput } from './pinnModel';
-import { normalize, OUTPUT_SCALE } from './pinnConstants';
+import { computeKinematicWaveAt, type PINNInput, type PINNOutput } from './pinnModel';
+import { normalize, NORMALIZATION, OUTPUT_SCALE } from './pinnConstants';
+import {
+    checkEnvelope,
+    describeEnvelopeCheck,
+    PINN_INPUTS,
+    type EnvelopeCheck,
+    type PINNInputKey,
+} from './pinnManifest';
+import { getLoadedModel, getModel, getModelManifest } from './modelRegistry';
+import { acceptsPINN, type HybridPolicy } from './hybridPolicy';
+import { confidenceFromInterval, sampleMCDropout, summarizeSamples, type PredictionInterval } from './mcDropout';
 import { computePeakRunoff } from '../utils/hydrology';
 
-const MODEL_URL = '/models/pinn_runoff/model.json';
+/** Cartesian grid of PINN inputs — x varies fastest, then t, rainfall, slope, manningN, width */
+export interface PINNGridSpec {
+    x: number[];                  // Positions along the flow path (m)
+    t: number[];                  // Times since start of rainfall (min)
+    rainfall: number | number[];  // Rainfall intensities (mm/hr)
+    slope: number | number[];     // Surface slopes (m/m)
+    manningN: number | number[];  // Manning's n
+    width: number | number[];     // Catchment widths (m)
+}
+
+export interface PINNBatchOutput {
+    discharge: Float32Array;       // Q (L/s)
+    depth: Float32Array;           // h (mm)
+    velocity: Float32Array;        // v (m/s)
+    outOfDistribution: Uint8Array; // 1 where the analytical value is returned (outside the training envelope or no trained model)
+}
+
+export interface PINNBatchOptions {
+    chunkSize?: number;  // Rows per tensor prediction (default BATCH_CHUNK_SIZE)
+    onProgress?: (done: number, total: number) => void;
+    signal?: AbortSignal; // Aborts between chunks
+}
 
-// Singleton model instance
-let loadedModel: tf.LayersModel | tf.Sequential | null = null;
-let isLoading = false;
+type InputColumns = Record<PINNInputKey, Float64Array>;
 
+const BATCH_CHUNK_SIZE = 8192;
 
+const NO_TRAINED_MODEL = 'Kein trainiertes PINN-Modell verfügbar — analytische Lösung verwendet';
 
 /**
- * Initialize the PINN inference engine
+ * Check an input against the training envelope of the loaded model
+ * Falls back to the normalization ranges while no manifest is loaded.
  */
-export async function initPINNEngine(): Promise<boolean> {
-    try {
-        await tf.setBackend('webgl').catch(() => tf.setBackend('cpu'));
-        await tf.ready();
-        return await loadModel();
-    } catch {
-        return false;
-    }
+export function checkTrainingEnvelope(input: PINNInput): EnvelopeCheck {
+    return checkEnvelope(input, getModelManifest()?.trainingRanges ?? NORMALIZATION);
 }
 
-async function tryLoadModel(): Promise<tf.LayersModel | tf.Sequential | null> {
-    try {
-        const model = await tf.loadLayersModel(MODEL_URL);
-        return model;
-    } catch {
-        return await createPINNModel();
-    }
+function normalizeInput(input: PINNInput): number[] {
+    return PINN_INPUTS.map(key => normalize(input[key], key));
 }
 
-async function warmupModel(model: tf.LayersModel | tf.Sequential): Promise<void> {
-    const dummyInput = tf.zeros([1, 5]);
-    const warmup = model.predict(dummyInput) as tf.Tensor;
-    warmup.dispose();
-    dummyInput.dispose();
+/**
+ * Run PINN inference for a single input scenario
+ * Inputs outside the training envelope, and all inputs while no trained model
+ * is available, are routed to the analytical solution.
+ */
+export async function runPINNInference(input: PINNInput): Promise<PINNOutput> {
+    const model = await requireModel();
+    if (!model) return { ...computeKinematicWaveAt(input), fallbackReason: NO_TRAINED_MODEL };
+
+    const envelope = checkTrainingEnvelope(input);
+    if (envelope.outOfDistribution) {
+        return { ...computeKinematicWaveAt(input), envelope, fallbackReason: describeEnvelopeCheck(envelope) };
+    }
+
+    const uncertainty = predictInterval(model, input);
+    return buildOutput(uncertainty, input, envelope);
 }
 
 /**
- * Load the PINN model if not already loaded
+ * MC dropout interval of the discharge, if a trained model with a validated
+ * manifest is loaded and the input is inside its training envelope
+ * Synchronous — does not trigger loading.
  */
-export async function loadModel(): Promise<boolean> {
-    if (loadedModel) return true;
-    if (isLoading) return false;
-    return performLoad();
+export function estimatePINNInterval(input: PINNInput): PredictionInterval | null {
+    const model = getLoadedModel();
+    if (!model || !getModelManifest() || checkTrainingEnvelope(input).outOfDistribution) return null;
+    return predictInterval(model, input);
+}
+
+/** Loaded PINN, null while none is available — a failed load is retried by the next call */
+function requireModel(): Promise<tf.LayersModel | null> {
+    return getModel().catch(() => null);
 }
 
-async function performLoad(): Promise<boolean> {
-    isLoading = true;
+function predictInterval(model: tf.LayersModel, input: PINNInput): PredictionInterval {
+    const inputTensor = tf.tensor2d([normalizeInput(input)]);
     try {
-        loadedModel = await tryLoadModel();
-        if (loadedModel) await warmupModel(loadedModel);
+        return summarizeSamples(sampleMCDropout(model, inputTensor)[0]);
     } finally {
-        isLoading = false;
+        inputTensor.dispose();
     }
-    return !!loadedModel;
 }
 
-function normalizeInput(input: PINNInput): number[] {
-    return [
-        normalize(input.x, 'x'),
-        normalize(input.t, 't'),
-        normalize(input.rainfall, 'rainfall'),
-        normalize(input.slope, 'slope'),
-        normalize(input.manningN, 'manningN'),
-    ];
+function buildOutput(uncertainty: PredictionInterval, input: PINNInput, envelope: EnvelopeCheck): PINNOutput {
+    const discharge = input.t <= 0 ? 0 : Math.max(0, uncertainty.mean);
+    const { depth, velocity } = computeDepthAndVelocity(discharge, input);
+
+    return {
+        discharge,
+        depth,
+        velocity,
+        confidence: confidenceFromInterval(uncertainty),
+        isPINNPrediction: true,
+        envelope,
+        uncertainty,
+    };
 }
 
 /**
- * Run PINN inference for a single input scenario
+ * Run PINN inference for many inputs in one tensor prediction
+ *
+ * Accepts a list of scenarios or a grid specification (e.g. an x–t field or a
+ * parameter sweep). Predictions run in chunks and are read back asynchronously,
+ * so the thread is not blocked while the backend computes. Rows outside the
+ * training envelope (all rows while no trained model is available) are routed
+ * to the analytical solution and flagged.
  */
-export async function runPINNInference(input: PINNInput): Promise<PINNOutput> {
-    if (!loadedModel && !(await loadModel())) {
-        throw new Error('PINN model not available');
-    }
+export async function runPINNBatch(
+    inputs: PINNInput[] | PINNGridSpec,
+    options: PINNBatchOptions = {},
+): Promise<PINNBatchOutput> {
+    const model = await requireModel();
+
+    const columns = Array.isArray(inputs) ? columnsFromInputs(inputs) : columnsFromGrid(inputs);
+    const count = columns.x.length;
+    const output: PINNBatchOutput = {
+        discharge: new Float32Array(count),
+        depth: new Float32Array(count),
+        velocity: new Float32Array(count),
+        outOfDistribution: new Uint8Array(count),
+    };
+    if (count === 0) return output;
 
-    const discharge = tf.tidy(() => {
-        const inputTensor = tf.tensor2d([normalizeInput(input)]);
-        const outputTensor = loadedModel!.predict(inputTensor) as tf.Tensor;
-        return outputTensor.dataSync()[0] * OUTPUT_SCALE; // Denormalization
+    const normalized = new Float32Array(count * PINN_INPUTS.length);
+    PINN_INPUTS.forEach((key, k) => {
+        const column = columns[key];
+        for (let i = 0; i < count; i++) normalized[i * PINN_INPUTS.length + k] = normalize(column[i], key);
     });
 
-    return buildOutput(discharge, input);
+    const chunkSize = options.chunkSize ?? BATCH_CHUNK_SIZE;
+    const predicted = new Float32Array(count);
+    for (let start = 0; model && start < count; start += chunkSize) {
+        options.signal?.throwIfAborted();
+        const rows = Math.min(chunkSize, count - start);
+        const inputTensor = tf.tensor2d(
+            normalized.subarray(start * PINN_INPUTS.length, (start + rows) * PINN_INPUTS.length),
+            [rows, PINN_INPUTS.length],
+        );
+        const outputTensor = model.predict(inputTensor) as tf.Tensor;
+        try {
+            predicted.set(await outputTensor.data() as Float32Array, start);
+        } finally {
+            tf.dispose([inputTensor, outputTensor]);
+        }
+        options.onProgress?.(start + rows, count);
+    }
+
+    for (let i = 0; i < count; i++) {
+        const input: PINNInput = {
+            x: columns.x[i],
+            t: columns.t[i],
+            rainfall: columns.rainfall[i],
+            slope: columns.slope[i],
+            manningN: columns.manningN[i],
+            width: columns.width[i],
+        };
+
+        if (!model || checkTrainingEnvelope(input).outOfDistribution) {
+            const analytical = computeKinematicWaveAt(input);
+            output.discharge[i] = analytical.discharge;
+            output.depth[i] = analytical.depth;
+            output.velocity[i] = analytical.velocity;
+            output.outOfDistribution[i] = 1;
+            continue;
+        }
+
+        const discharge = input.t <= 0 ? 0 : Math.max(0, predicted[i] * OUTPUT_SCALE);
+        const { depth, velocity } = computeDepthAndVelocity(discharge, input);
+        output.discharge[i] = discharge;
+        output.depth[i] = depth;
+        output.velocity[i] = velocity;
+    }
+
+    return output;
 }
 
-function buildOutput(discharge: number, input: PINNInput): PINNOutput {
-    const depthM = calculateDepthM(discharge, input);
-    const velocity = calculateVelocity(discharge, depthM);
-    const actualDischarge = input.t <= 0 ? 0 : Math.max(0, discharge);
+function columnsFromInputs(inputs: PINNInput[]): InputColumns {
+    const entries = PINN_INPUTS.map(key => [key, Float64Array.from(inputs, input => input[key])]);
+    return Object.fromEntries(entries) as InputColumns;
+}
 
-    return {
-        discharge: actualDischarge,
-        depth: depthM * 1000,
-        velocity,
-        confidence: 0.92,
-        isPINNPrediction: true
-    };
+function columnsFromGrid(spec: PINNGridSpec): InputColumns {
+    const axes = PINN_INPUTS.map(key => {
+        const axis = spec[key];
+        return Array.isArray(axis) ? axis : [axis];
+    });
+    const count = axes.reduce((n, axis) => n * axis.length, 1);
+    const columns = PINN_INPUTS.map(() => new Float64Array(count));
+
+    for (let i = 0; i < count; i++) {
+        // Mixed-radix decomposition of the flat index, first axis fastest
+        let rest = i;
+        axes.forEach((axis, k) => {
+            columns[k][i] = axis[rest % axis.length];
+            rest = Math.floor(rest / axis.length);
+        });
+    }
+
+    return Object.fromEntries(PINN_INPUTS.map((key, k) => [key, columns[k]])) as InputColumns;
 }
 
-function calculateDepthM(discharge: number, input: PINNInput): number {
-    if (discharge <= 0.001) return 0;
-    const width = 10;
-    const numerator = discharge / 1000 * input.manningN;
-    const denominator = width * Math.sqrt(input.slope);
-    return Math.pow(numerator / denominator, 0.6);
+/**
+ * Flow depth (mm) and velocity (m/s) for a discharge on a plane of the input width
+ * Manning: q = Q/W = √S/n·h^(5/3) → h = (q·n/√S)^(3/5), v = q/h
+ */
+function computeDepthAndVelocity(discharge: number, input: PINNInput): { depth: number; velocity: number } {
+    if (discharge <= 0.001) return { depth: 0, velocity: 0 };
+    const q = discharge / 1000 / input.width;
+    const depthM = Math.pow(q * input.manningN / Math.sqrt(input.slope), 0.6);
+    return { depth: depthM * 1000, velocity: q / depthM };
 }
 
-function calculateVelocity(discharge: number, depthM: number): number {
-    if (depthM <= 0) return 0;
-    return (discharge / 1000) / (10 * depthM);
+/**
+ * Hybrid prediction used by every caller
+ *
+ * Inside the training envelope the PINN value is returned if the hybrid
+ * policy accepts it against the Rational Method; outside the envelope the
+ * analytical kinematic wave applies. Otherwise the Rational Method is used.
+ */
+export async function getHybridPrediction(
+    input: PINNInput,
+    area: number = 100,
+    policy?: HybridPolicy,
+): Promise<PINNOutput> {
+    const rational = computePeakRunoff(input.rainfall, area);
+    try {
+        const pinn = await runPINNInference(input);
+        if (!pinn.isPINNPrediction || acceptsPINN(pinn.discharge, rational, 'rational', policy)) return pinn;
+        return getFallbackResult(rational, 0.5,
+            `PINN ${pinn.discharge.toFixed(1)} L/s nicht plausibel gegenüber Rational Method ${rational.toFixed(1)} L/s`);
+    } catch {
+        return getFallbackResult(rational, 0.3, 'PINN-Modell nicht verfügbar');
+    }
 }
 
-function isSanePrediction(pinn: number, rational: number): boolean {
-    return pinn <= rational * 3 && pinn >= rational * 0.2;
+function getFallbackResult(rational: number, confidence: number, fallbackReason: string): PINNOutput {
+    return {
+        discharge: rational,
+        depth: 0,
+        velocity: 0,
+        confidence,
+        isPINNPrediction: false,
+        fallbackReason,
+    };
 }
 
 /**
  * Robust Hybrid Prediction
+ * Peak runoff in L/s for a 100 m flow path after 60 min of rain, on a plane √area wide.
  */
 export async function getRobustRunoffPrediction(
     rainfall: number,
     area: number,
     slope: number = 0.02
 ): Promise<number> {
-    const rational = computePeakRunoff(rainfall, area);
-    const input: PINNInput = { x: 100, t: 60, rainfall, slope, manningN: 0.015 };
-    return tryPINN(input, rational);
-}
-
-async function tryPINN(input: PINNInput, rational: number): Promise<number> {
-    try {
-        const pinn = await runPINNInference(input);
-        return isSanePrediction(pinn.discharge, rational) ? pinn.discharge : rational;
-    } catch {
-        return rational;
-    }
+    const input: PINNInput = { x: 100, t: 60, rainfall, slope, manningN: 0.015, width: Math.sqrt(area) };
+    return (await getHybridPrediction(input, area)).discharge;
 }
@@ -0,0 +1,163 @@
+/**
+ * PINN Model Manifest
+ *
+ * Metadata shipped next to every exported model (manifest.json): version,
+ * normalization, training data ranges and validation metrics. Inference
+ * refuses weights whose manifest does not match the constants in pinnConstants.
+ */
+
+import { NORMALIZATION, OUTPUT_SCALE } from './pinnConstants';
+import type { ErrorMetrics } from './pinnBenchmark';
+
+export type PINNInputKey = keyof typeof NORMALIZATION;
+
+export type InputRanges = Record<PINNInputKey, { min: number; max: number }>;
+
+export interface PINNManifest {
+    modelVersion: string;
+    createdAt: string;           // ISO timestamp
+    inputs: PINNInputKey[];      // Input column order
+    normalization: InputRanges;  // Ranges used to normalize inputs to [0, 1]
+    outputScale: number;         // Output denormalization factor (L/s)
+    trainingRanges: InputRanges; // Ranges covered by the training data (physical units)
+    trainingSeed?: number;       // Seed reproducing the training data and split
+    validation: {
+        rmse: number;            // Validation RMSE (L/s)
+        mape: number;            // Validation MAPE (%)
+        samples: number;         // Validation sample count
+    };
+    benchmark?: {                // Benchmark metrics recorded when the model passed the gate
+        analytical: ErrorMetrics;
+        numerical: ErrorMetrics;
+    };
+}
+
+export interface EnvelopeViolation {
+    input: PINNInputKey;
+    value: number;
+    min: number;
+    max: number;
+}
+
+export interface EnvelopeCheck {
+    outOfDistribution: boolean;
+    distance: number;  // Euclidean distance outside the envelope, in units of each input's range (0 = inside)
+    violations: EnvelopeViolation[];
+}
+
+export const MANIFEST_FILE = 'manifest.json';
+
+const INPUT_LABELS: Record<PINNInputKey, { label: string; unit: string }> = {
+    x: { label: 'Fließweg x', unit: 'm' },
+    t: { label: 'Regendauer t', unit: 'min' },
+    rainfall: { label: 'Regenspende', unit: 'mm/h' },
+    slope: { label: 'Gefälle', unit: 'm/m' },
+    manningN: { label: 'Manning n', unit: '' },
+    width: { label: 'Einzugsbreite', unit: 'm' },
+};
+
+/** Input column order expected by the model */
+export const PINN_INPUTS: PINNInputKey[] = ['x', 't', 'rainfall', 'slope', 'manningN', 'width'];
+
+/**
+ * Build the manifest for a freshly trained model
+ */
+export function buildManifest(
+    modelVersion: string,
+    trainingRanges: InputRanges,
+    validation: PINNManifest['validation'],
+    trainingSeed?: number,
+): PINNManifest {
+    return {
+        modelVersion,
+        createdAt: new Date().toISOString(),
+        inputs: [...PINN_INPUTS],
+        normalization: structuredClone(NORMALIZATION),
+        outputScale: OUTPUT_SCALE,
+        trainingRanges,
+        trainingSeed,
+        validation,
+    };
+}
+
+/**
+ * Check that a manifest matches the normalization compiled into this build
+ * Throws if the weights were trained with different inputs or scaling, or if
+ * the training ranges reach beyond the normalization bounds.
+ */
+export function validateManifest(manifest: PINNManifest): void {
+    if (!manifest || typeof manifest.modelVersion !== 'string') {
+        throw new Error('PINN manifest: modelVersion missing');
+    }
+    if (manifest.inputs?.join(',') !== PINN_INPUTS.join(',')) {
+        throw new Error(`PINN manifest ${manifest.modelVersion}: input order ${manifest.inputs} does not match ${PINN_INPUTS}`);
+    }
+    if (manifest.outputScale !== OUTPUT_SCALE) {
+        throw new Error(`PINN manifest ${manifest.modelVersion}: output scale ${manifest.outputScale} does not match ${OUTPUT_SCALE}`);
+    }
+    for (const key of PINN_INPUTS) {
+        const expected = NORMALIZATION[key];
+        const actual = manifest.normalization?.[key];
+        if (!actual || actual.min !== expected.min || actual.max !== expected.max) {
+            throw new Error(`PINN manifest ${manifest.modelVersion}: normalization of '${key}' does not match`);
+        }
+        // Inputs beyond the normalization bounds would be clamped silently inside the envelope
+        const range = manifest.trainingRanges?.[key];
+        if (!range || !(range.min >= expected.min && range.min <= range.max && range.max <= expected.max)) {
+            throw new Error(
+                `PINN manifest ${manifest.modelVersion}: training range of '${key}' lies outside the normalization ${expected.min}–${expected.max}`,
+            );
+        }
+    }
+}
+
+/**
+ * Check whether an input lies inside the training envelope
+ *
+ * @param values - Input values in physical units
+ * @param ranges - Envelope (training ranges of the loaded model)
+ */
+export function checkEnvelope(values: Record<PINNInputKey, number>, ranges: InputRanges): EnvelopeCheck {
+    const violations: EnvelopeViolation[] = [];
+    let squared = 0;
+
+    for (const key of PINN_INPUTS) {
+        const { min, max } = ranges[key];
+        const value = values[key];
+        const excess = Math.max(0, min - value, value - max);
+        if (excess > 0 || !Number.isFinite(value)) {
+            violations.push({ input: key, value, min, max });
+            squared += (Number.isFinite(value) ? excess / (max - min || 1) : Infinity) ** 2;
+        }
+    }
+
+    return { outOfDistribution: violations.length > 0, distance: Math.sqrt(squared), violations };
+}
+
+/**
+ * German description of an envelope violation, e.g. for UI hints
+ */
+export function describeEnvelopeViolation(violation: EnvelopeViolation): string {
+    const { label, unit } = INPUT_LABELS[violation.input];
+    const u = unit ? ` ${unit}` : '';
+    return `${label} ${formatValue(violation.value)}${u} außerhalb des Trainingsbereichs ${formatValue(violation.min)}–${formatValue(violation.max)}${u}`;
+}
+
+/**
+ * German summary of all envelope violations of an input
+ */
+export function describeEnvelopeCheck(check: EnvelopeCheck): string {
+    return check.violations.map(describeEnvelopeViolation).join('; ');
+}
+
+function formatValue(value: number): string {
+    return Math.abs(value) >= 1 ? value.toFixed(0) : String(Number(value.toPrecision(2)));
+}
+
+/**
+ * Short citation of the model for reports
+ */
+export function describeModelManifest(manifest: PINNManifest): string {
+    return `PINN v${manifest.modelVersion} (${manifest.createdAt.slice(0, 10)}), ` +
+        `Validierung RMSE ${manifest.validation.rmse.toFixed(2)} L/s, MAPE ${manifest.validation.mape.toFixed(1)}%`;
+}
@@ -1,34 +1,7 @@
 import * as tf from '@tensorflow/tfjs';
-import { computePeakRunoff } from '../utils/hydrology';
-import { normalize, denormalizeOutput } from './pinnConstants';
-
-let isTfInitialized = false;
-
-/**
- * Initialize TensorFlow.js with appropriate backend settings
- */
-export async function initializeTf(): Promise<void> {
-    if (isTfInitialized) return;
-    try {
-        await tf.ready();
-        isTfInitialized = true;
-    } catch (e) {
-        await initializeCpuFallback(e);
-    }
-}
-
-async function initializeCpuFallback(error: any): Promise<void> {
-    console.warn('TFJS ready failed, attempting CPU fallback', error);
-    try {
-        await tf.setBackend('cpu');
-        await tf.ready();
-        isTfInitialized = true;
-    } catch (innerError) {
-        console.error('TFJS initialization fatal failure', innerError);
-    }
-}
-
-// initializeTf();
+import { DROPOUT_RATE } from './pinnConstants';
+import { PINN_INPUTS, type EnvelopeCheck } from './pinnManifest';
+import type { PredictionInterval } from './mcDropout';
 
 // ============ Types ============
 
@@ -38,14 +11,18 @@ export interface PINNInput {
     rainfall: number; // Rainfall intensity (mm/hr)
     slope: number;    // Surface slope (m/m)
     manningN: number; // Manning's roughness coefficient
+    width: number;    // Catchment width (m)
 }
 
 export interface PINNOutput {
     discharge: number;    // Predicted discharge Q (L/s)
     depth: number;        // Predicted water depth h (mm)
     velocity: number;     // Flow velocity (m/s)
-    confidence: number;   // Model confidence (0-1)
+    confidence: number;   // Model confidence (0-1), 1 − coefficient of variation for PINN predictions
     isPINNPrediction: boolean;
+    uncertainty?: PredictionInterval; // MC dropout mean / std / interval of the discharge
+    envelope?: EnvelopeCheck;  // Training envelope check of the input
+    fallbackReason?: string;   // Why the PINN value was not used
 }
 
 export interface KinematicWaveParams {
@@ -54,18 +31,24 @@ export interface KinematicWaveParams {
     slope: number;     // Surface slope (m/m)
     manningN: number;  // Manning's n
     width: number;     // Catchment width (m)
+    duration?: number; // Rain duration (min), omit for sustained rainfall
 }
 
 export interface KinematicWaveResult {
     peakDischarge: number;  // Peak Q (L/s)
     timeToPeak: number;     // Time to peak (min)
     equilibriumDepth: number; // Equilibrium depth (mm)
+    timeToEquilibrium: number; // Time of concentration t_e (min)
+    rainDuration?: number;  // Rain duration evaluated (min)
 }
 
-// ============ Model Cache ============
-
-let pinnModel: tf.Sequential | null = null;
-let isModelLoading = false;
+export interface KinematicWaveHydrograph {
+    time: number[];       // Time since start of rainfall (min)
+    discharge: number[];  // Outlet discharge Q(t) (L/s)
+    depth: number[];      // Outlet depth h(t) (mm)
+    timeToEquilibrium: number; // Time of concentration t_e (min)
+    rainDuration?: number; // Rain duration (min), undefined for sustained rainfall
+}
 
 // ============ Model Architecture ============
 
@@ -73,156 +56,191 @@ let isModelLoading = false;
  * Create the PINN model architecture
  */
 export async function createPINNModel(): Promise<tf.Sequential> {
-    await initializeTf();
+    await tf.ready();
 
     const model = tf.sequential();
 
     model.add(tf.layers.dense({
         units: 32,
         activation: 'tanh',
-        inputShape: [5],
+        inputShape: [PINN_INPUTS.length],
         kernelInitializer: 'glorotNormal',
     }));
 
+    model.add(tf.layers.dropout({ rate: DROPOUT_RATE }));
+
     model.add(tf.layers.dense({ units: 64, activation: 'tanh', kernelInitializer: 'glorotNormal' }));
+    model.add(tf.layers.dropout({ rate: DROPOUT_RATE }));
     model.add(tf.layers.dense({ units: 64, activation: 'tanh', kernelInitializer: 'glorotNormal' }));
+    model.add(tf.layers.dropout({ rate: DROPOUT_RATE }));
     model.add(tf.layers.dense({ units: 32, activation: 'tanh', kernelInitializer: 'glorotNormal' }));
+    model.add(tf.layers.dropout({ rate: DROPOUT_RATE }));
 
     model.add(tf.layers.dense({
         units: 1,
         activation: 'softplus',
     }));
 
+    // Named optimizer: the model owns it and releases its state on dispose()
     model.compile({
-        optimizer: tf.train.adam(0.001),
+        optimizer: 'adam',
         loss: 'meanSquaredError',
     });
 
     return model;
 }
 
-/**
- * Get or create the PINN model (singleton pattern)
- */
-export async function getModel(): Promise<tf.Sequential> {
-    if (pinnModel) return pinnModel;
-
-    if (isModelLoading) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-        return getModel();
-    }
-
-    isModelLoading = true;
-
-    try {
-        pinnModel = await createPINNModel();
-        return pinnModel;
-    } finally {
-        isModelLoading = false;
-    }
-}
-
-// ============ Normalization ============
-
-function denormalizeDischarge(value: number): number {
-    return denormalizeOutput(value);
-}
-
-function calculateDepthAndVelocity(discharge: number, input: PINNInput): { depth: number; velocity: number } {
-    const alpha = Math.sqrt(input.slope) / input.manningN;
-    const depth = discharge > 0 ? Math.pow(discharge / alpha, 0.6) * 1000 : 0;
-    const velocity = depth > 0 ? discharge / (10 * depth / 1000) : 0;
-    return { depth, velocity };
-}
-
-function getNormalizedInputArray(input: PINNInput): number[] {
-    return [
-        normalize(input.x, 'x'),
-        normalize(input.t, 't'),
-        normalize(input.rainfall, 'rainfall'),
-        normalize(input.slope, 'slope'),
-        normalize(input.manningN, 'manningN'),
-    ];
-}
-
-// ============ Prediction ============
-
-/**
- * Predict runoff discharge using the PINN model
- */
-export async function predictRunoff(input: PINNInput): Promise<PINNOutput> {
-    const model = await getModel();
-    const inputTensor = tf.tensor2d([getNormalizedInputArray(input)]);
-    const outputTensor = model.predict(inputTensor) as tf.Tensor;
-    const rawOutput = outputTensor.dataSync()[0];
-
-    inputTensor.dispose();
-    outputTensor.dispose();
-
-    const discharge = input.t <= 0 ? 0 : denormalizeDischarge(rawOutput);
-    const { depth, velocity } = calculateDepthAndVelocity(discharge, input);
-
-    return {
-        discharge,
-        depth,
-        velocity,
-        confidence: 0.85,
-        isPINNPrediction: true,
-    };
-}
+// ============ Analytical Solutions ============
 
 /**
  * Compute the kinematic wave analytical solution
+ *
+ * For rain shorter than the time of concentration the plane only reaches
+ * partial equilibrium: the outlet depth peaks at i·D when the rain stops.
  */
 export function computeKinematicWaveSolution(params: KinematicWaveParams): KinematicWaveResult {
-    const { length, rainfall, slope, manningN, width } = params;
+    const { length, rainfall, slope, manningN, width, duration } = params;
     const q = rainfall / (1000 * 3600);
     const alpha = Math.sqrt(slope) / manningN;
     const m = 5 / 3;
 
-    const h_eq = Math.pow((q * length) / (alpha * width), 1 / m);
-    const c_eq = alpha * m * Math.pow(h_eq, m - 1);
-    const t_c = length / c_eq;
+    // Unit-width equilibrium: q·L = α·h^m
+    const h_eq = Math.pow((q * length) / alpha, 1 / m);
+    const t_e = Math.pow(length / (alpha * Math.pow(q, m - 1)), 1 / m);
 
-    const peakDischarge = alpha * Math.pow(h_eq, m) * width * 1000;
+    const rainSeconds = duration !== undefined ? duration * 60 : Infinity;
+    const h_peak = rainSeconds < t_e ? q * rainSeconds : h_eq;
+    const peakDischarge = alpha * Math.pow(h_peak, m) * width * 1000;
 
     return {
         peakDischarge,
-        timeToPeak: t_c / 60,
+        timeToPeak: Math.min(t_e, rainSeconds) / 60,
         equilibriumDepth: h_eq * 1000,
+        timeToEquilibrium: t_e / 60,
+        rainDuration: duration,
     };
 }
 
 /**
- * Fallback to rational method if PINN fails
+ * Analytical kinematic wave discharge at position x and time t
+ * Used instead of the PINN when an input lies outside the training envelope,
+ * and as the target of the synthetic training data.
+ *
+ * @param input - Position, time and plane parameters
+ * @param duration - Rain duration (min), omit for sustained rainfall
  */
-export const computeRationalMethod = computePeakRunoff;
+export function computeKinematicWaveAt(input: PINNInput, duration?: number): PINNOutput {
+    const alpha = Math.sqrt(input.slope) / input.manningN;
+    const m = 5 / 3;
+
+    const h = computeCharacteristicDepth(input.x, input.t, input, duration);
+    const discharge = alpha * Math.pow(h, m) * input.width * 1000;
+
+    return {
+        discharge,
+        depth: h * 1000,
+        velocity: h > 0 ? alpha * Math.pow(h, m - 1) : 0,
+        confidence: 1,
+        isPINNPrediction: false,
+    };
+}
 
 /**
- * Get runoff prediction with PINN, falling back to rational method
+ * Depth h(x, t) (m) by the method of characteristics
+ *
+ * While it rains, depth rises as q·t until the local equilibrium q·x = α·h^m.
+ * After the rain stops, depth is constant along dx/dt = α·m·h^(m−1): either
+ * the plateau q·D still travelling down the plane, or a depth h that left
+ * the equilibrium profile at x₀ = α·h^m/q when the rain stopped.
  */
-export async function getHybridPrediction(input: PINNInput, area: number = 100): Promise<PINNOutput> {
-    try {
-        const pinn = await predictRunoff(input);
-        const rational = computeRationalMethod(input.rainfall, area);
-        return decidePinnUsage(pinn, rational, input, area);
-    } catch {
-        return getFallbackResult(input.rainfall, area, 0.3);
+function computeCharacteristicDepth(
+    x: number,
+    t: number,
+    params: Pick<KinematicWaveParams, 'rainfall' | 'slope' | 'manningN'>,
+    duration?: number,
+): number {
+    const q = params.rainfall / (1000 * 3600);
+    const alpha = Math.sqrt(params.slope) / params.manningN;
+    const m = 5 / 3;
+    if (q <= 0 || x <= 0 || t <= 0) return 0;
+
+    const seconds = t * 60;
+    const rainSeconds = duration !== undefined ? duration * 60 : Infinity;
+    const h_eq = Math.pow((q * x) / alpha, 1 / m);
+    if (seconds <= rainSeconds) return Math.min(q * seconds, h_eq);
+
+    // Position at time t of the characteristic carrying depth h after rain stops
+    const elapsed = seconds - rainSeconds;
+    const reach = (h: number) => alpha * Math.pow(h, m) / q + alpha * m * Math.pow(h, m - 1) * elapsed;
+
+    const h_rain = q * rainSeconds;
+    if (x >= reach(h_rain)) return h_rain;
+
+    // reach(h) increases monotonically in h — bisect for the depth arriving at x
+    let lo = 0;
+    let hi = h_rain;
+    for (let i = 0; i < 60; i++) {
+        const mid = (lo + hi) / 2;
+        if (reach(mid) < x) lo = mid;
+        else hi = mid;
     }
+    return (lo + hi) / 2;
 }
 
-function decidePinnUsage(pinn: PINNOutput, rational: number, input: PINNInput, area: number): PINNOutput {
-    const ratio = pinn.discharge / rational;
-    if (ratio > 0.3 && ratio < 3.0) return pinn;
-    return getFallbackResult(input.rainfall, area, 0.5);
-}
+/**
+ * Compute the outlet hydrograph Q(t), h(t) of the kinematic wave solution
+ *
+ * Rising limb h = q·t until t_e or the end of rain, equilibrium (or the
+ * partial-equilibrium plateau at q·D) and, once rain stops, the recession
+ * along characteristics: t(h) = D + (L − α·h^m/q) / (α·m·h^(m−1)).
+ */
+export function computeKinematicWaveHydrograph(
+    params: KinematicWaveParams,
+    samples: number = 200,
+): KinematicWaveHydrograph {
+    const { length, rainfall, slope, manningN, width, duration } = params;
+    const q = rainfall / (1000 * 3600);
+    const alpha = Math.sqrt(slope) / manningN;
+    const m = 5 / 3;
 
-function getFallbackResult(rainfall: number, area: number, confidence: number): PINNOutput {
-    return {
-        discharge: computeRationalMethod(rainfall, area),
-        depth: 0,
-        velocity: 0,
-        confidence,
-        isPINNPrediction: false,
+    const h_eq = Math.pow((q * length) / alpha, 1 / m);
+    const t_e = Math.pow(length / (alpha * Math.pow(q, m - 1)), 1 / m);
+    const rainSeconds = duration !== undefined ? duration * 60 : Infinity;
+    const h_peak = Math.min(q * rainSeconds, h_eq);
+
+    // Arrival time at the outlet of depth h after rain stops
+    const recessionTime = (h: number) =>
+        rainSeconds + (length - alpha * Math.pow(h, m) / q) / (alpha * m * Math.pow(h, m - 1));
+
+    // Run until Q has receded to 1% of its peak; sustained rain is shown to 2·t_e
+    const endSeconds = Number.isFinite(rainSeconds)
+        ? recessionTime(h_peak * Math.pow(0.01, 1 / m))
+        : 2 * t_e;
+
+    const depthAt = (t: number): number => {
+        if (t <= rainSeconds) return Math.min(q * t, h_eq);
+        if (t <= recessionTime(h_peak)) return h_peak;
+        // t(h) decreases monotonically in h — bisect for the depth arriving at t
+        let lo = 0;
+        let hi = h_peak;
+        for (let i = 0; i < 60; i++) {
+            const mid = (lo + hi) / 2;
+            if (recessionTime(mid) > t) lo = mid;
+            else hi = mid;
+        }
+        return (lo + hi) / 2;
     };
+
+    const time: number[] = [];
+    const discharge: number[] = [];
+    const depth: number[] = [];
+    for (let i = 0; i <= samples; i++) {
+        const t = endSeconds * i / samples;
+        const h = depthAt(t);
+        time.push(t / 60);
+        depth.push(h * 1000);
+        discharge.push(alpha * Math.pow(h, m) * width * 1000);
+    }
+
+    return { time, discharge, depth, timeToEquilibrium: t_e / 60, rainDuration: duration };
 }
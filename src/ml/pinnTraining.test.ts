@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+import { trainPINN } from './pinnTraining';
+import { NORMALIZATION } from './pinnConstants';
+
+describe('trainPINN', () => {
+    it('trains on a subset of whole scenarios, reports validation metrics and releases its tensors', async () => {
+        const tensors = tf.memory().numTensors;
+        const epochs: number[] = [];
+
+        const result = await trainPINN({
+            epochs: 2,
+            maxSamples: 400,
+            batchSize: 100,
+            collocationPoints: 16,
+            onEpochEnd: metrics => epochs.push(metrics.epoch),
+        });
+
+        expect(epochs).toEqual([1, 2]);
+        // Within one scenario of 5 × 13 samples
+        expect(Math.abs(result.trainSamples + result.validationSamples - 400)).toBeLessThanOrEqual(65);
+        expect(Number.isFinite(result.validation.rmse)).toBe(true);
+        expect(result.validation).toEqual({ rmse: result.history[1].rmse, mape: result.history[1].mape });
+        expect(result.trainingRanges.width.min).toBeGreaterThanOrEqual(NORMALIZATION.width.min);
+        expect(result.trainingRanges.width.max).toBeLessThanOrEqual(NORMALIZATION.width.max);
+
+        result.model.dispose();
+        expect(tf.memory().numTensors).toBe(tensors);
+    });
+});
@@ -0,0 +1,206 @@
+/**
+ * PINN Training Pipeline
+ *
+ * Trains the runoff PINN on synthetic kinematic wave data with the combined
+ * supervised, PDE residual and boundary / initial condition losses.
+ * Environment-agnostic: runs on any TF.js backend, including CPU in Node.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { createPINNModel } from './pinnModel';
+import { normalize, normalizeOutput, denormalizeOutput } from './pinnConstants';
+import { PINN_INPUTS, type InputRanges } from './pinnManifest';
+import {
+    computePINNLoss,
+    generateCollocationPoints,
+    DEFAULT_LOSS_WEIGHTS,
+    type PhysicsLossWeights,
+} from './pdeResiduals';
+import {
+    generateBoundaryData,
+    generateTrainingData,
+    splitDataset,
+    type TrainingSample,
+} from './syntheticData';
+import { createRandom, shuffle, DEFAULT_SEED } from './random';
+
+// ============ Types ============
+
+export interface PINNTrainingOptions {
+    epochs: number;
+    batchSize: number;
+    learningRate: number;
+    collocationPoints: number;  // Collocation points per batch
+    trainRatio: number;         // Train / validation split
+    maxSamples?: number;        // Optional cap on synthetic samples (for quick runs)
+    seed: number;               // Seed of the synthetic data, split, batch order and collocation points
+    lossWeights: PhysicsLossWeights;
+    onEpochEnd?: (metrics: EpochMetrics) => void;
+}
+
+export interface ValidationMetrics {
+    rmse: number;  // Root mean squared error (L/s)
+    mape: number;  // Mean absolute percentage error (%) over targets ≥ MAPE_MIN_TARGET
+}
+
+export interface EpochMetrics extends ValidationMetrics {
+    epoch: number;
+    loss: number;
+    dataLoss: number;
+    residualLoss: number;
+    boundaryLoss: number;
+    initialLoss: number;
+}
+
+export interface PINNTrainingResult {
+    model: tf.Sequential;
+    history: EpochMetrics[];
+    validation: ValidationMetrics;
+    trainingRanges: InputRanges;  // Input ranges covered by the training samples
+    trainSamples: number;
+    validationSamples: number;
+    seed: number;
+}
+
+export const DEFAULT_TRAINING_OPTIONS: PINNTrainingOptions = {
+    epochs: 20,
+    batchSize: 256,
+    learningRate: 0.001,
+    collocationPoints: 128,
+    trainRatio: 0.8,
+    seed: DEFAULT_SEED,
+    lossWeights: DEFAULT_LOSS_WEIGHTS,
+};
+
+/** Targets below this discharge (L/s) are excluded from MAPE */
+const MAPE_MIN_TARGET = 0.1;
+
+// ============ Data Preparation ============
+
+function normalizeSampleInputs(inputs: number[]): number[] {
+    return PINN_INPUTS.map((key, i) => normalize(inputs[i], key));
+}
+
+function computeInputRanges(samples: TrainingSample[]): InputRanges {
+    const entries = PINN_INPUTS.map((key, i) => {
+        const range = samples.reduce(
+            (r, s) => ({ min: Math.min(r.min, s.inputs[i]), max: Math.max(r.max, s.inputs[i]) }),
+            { min: Infinity, max: -Infinity },
+        );
+        return [key, range];
+    });
+    return Object.fromEntries(entries) as InputRanges;
+}
+
+function toTensors(samples: TrainingSample[]): { inputs: tf.Tensor2D; targets: tf.Tensor2D } {
+    return {
+        inputs: tf.tensor2d(samples.map(s => normalizeSampleInputs(s.inputs)), [samples.length, PINN_INPUTS.length]),
+        targets: tf.tensor2d(samples.map(s => [normalizeOutput(s.output)]), [samples.length, 1]),
+    };
+}
+
+// ============ Training ============
+
+/**
+ * Train a fresh PINN on synthetic data
+ */
+export async function trainPINN(options: Partial<PINNTrainingOptions> = {}): Promise<PINNTrainingResult> {
+    const opts = { ...DEFAULT_TRAINING_OPTIONS, ...options };
+
+    const random = createRandom(opts.seed);
+    const samples = [...generateTrainingData({ seed: opts.seed }).samples, ...generateBoundaryData(random)];
+    // Subset of whole scenarios for quick runs
+    const pool = opts.maxSamples ? splitDataset(samples, opts.maxSamples / samples.length, random).train : samples;
+    const { train, val } = splitDataset(pool, opts.trainRatio, random);
+
+    const model = await createPINNModel();
+    const optimizer = tf.train.adam(opts.learningRate);
+    const trainData = toTensors(train);
+    const valData = toTensors(val);
+    const history: EpochMetrics[] = [];
+
+    try {
+        for (let epoch = 1; epoch <= opts.epochs; epoch++) {
+            const totals = { loss: 0, dataLoss: 0, residualLoss: 0, boundaryLoss: 0, initialLoss: 0 };
+            const batches = Math.ceil(train.length / opts.batchSize);
+            const order = shuffle(Array.from({ length: train.length }, (_, i) => i), random);
+
+            for (let b = 0; b < batches; b++) {
+                const batchIdx = tf.tensor1d(order.slice(b * opts.batchSize, (b + 1) * opts.batchSize), 'int32');
+                const batchInputs = trainData.inputs.gather(batchIdx);
+                const batchTargets = trainData.targets.gather(batchIdx);
+                const collocation = generateCollocationPoints(opts.collocationPoints, random);
+
+                let terms: number[] = [];
+                const loss = optimizer.minimize(() => {
+                    const result = computePINNLoss(model, batchInputs, batchTargets, collocation, opts.lossWeights);
+                    terms = [result.data, result.residual, result.boundary, result.initial].map(t => t.dataSync()[0]);
+                    return result.total;
+                }, true);
+
+                totals.loss += loss ? loss.dataSync()[0] : 0;
+                totals.dataLoss += terms[0];
+                totals.residualLoss += terms[1];
+                totals.boundaryLoss += terms[2];
+                totals.initialLoss += terms[3];
+
+                tf.dispose([batchIdx, batchInputs, batchTargets, collocation]);
+                loss?.dispose();
+                await tf.nextFrame();
+            }
+
+            const metrics: EpochMetrics = {
+                epoch,
+                loss: totals.loss / batches,
+                dataLoss: totals.dataLoss / batches,
+                residualLoss: totals.residualLoss / batches,
+                boundaryLoss: totals.boundaryLoss / batches,
+                initialLoss: totals.initialLoss / batches,
+                ...evaluateModel(model, valData.inputs, valData.targets),
+            };
+            history.push(metrics);
+            opts.onEpochEnd?.(metrics);
+        }
+    } finally {
+        tf.dispose([trainData.inputs, trainData.targets, valData.inputs, valData.targets]);
+        optimizer.dispose();
+    }
+
+    return {
+        model,
+        history,
+        validation: history.length > 0
+            ? { rmse: history[history.length - 1].rmse, mape: history[history.length - 1].mape }
+            : { rmse: NaN, mape: NaN },
+        trainingRanges: computeInputRanges(train),
+        trainSamples: train.length,
+        validationSamples: val.length,
+        seed: opts.seed,
+    };
+}
+
+/**
+ * Validation RMSE and MAPE in physical units (L/s)
+ */
+export function evaluateModel(model: tf.LayersModel, inputs: tf.Tensor2D, targets: tf.Tensor2D): ValidationMetrics {
+    const predicted = tf.tidy(() => (model.predict(inputs) as tf.Tensor).dataSync());
+    const actual = targets.dataSync();
+
+    let squaredError = 0;
+    let percentError = 0;
+    let percentCount = 0;
+    for (let i = 0; i < actual.length; i++) {
+        const p = denormalizeOutput(predicted[i]);
+        const a = denormalizeOutput(actual[i]);
+        squaredError += (p - a) ** 2;
+        if (a >= MAPE_MIN_TARGET) {
+            percentError += Math.abs(p - a) / a;
+            percentCount++;
+        }
+    }
+
+    return {
+        rmse: Math.sqrt(squaredError / Math.max(actual.length, 1)),
+        mape: percentCount > 0 ? percentError / percentCount * 100 : NaN,
+    };
+}
@@ -0,0 +1,53 @@
+/**
+ * Seeded Random Numbers
+ *
+ * Deterministic pseudo-random source (mulberry32) and sampling helpers for
+ * synthetic training data, so the same seed reproduces the same dataset.
+ */
+
+/** Uniform random numbers in [0, 1) */
+export type RandomSource = () => number;
+
+export const DEFAULT_SEED = 1986;
+
+/**
+ * Create a seeded pseudo-random source (mulberry32)
+ */
+export function createRandom(seed: number = DEFAULT_SEED): RandomSource {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Shuffle an array in place (Fisher–Yates)
+ */
+export function shuffle<T>(items: T[], random: RandomSource): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+}
+
+/**
+ * Latin hypercube sample in the unit cube [0, 1)^dimensions
+ * Each dimension is split into `samples` equal strata, and every stratum is hit exactly once.
+ *
+ * @returns `samples` points of `dimensions` coordinates each
+ */
+export function latinHypercube(samples: number, dimensions: number, random: RandomSource): number[][] {
+    const points = Array.from({ length: samples }, () => new Array<number>(dimensions));
+    for (let d = 0; d < dimensions; d++) {
+        const strata = shuffle(Array.from({ length: samples }, (_, i) => i), random);
+        strata.forEach((stratum, i) => {
+            points[i][d] = (stratum + random()) / samples;
+        });
+    }
+    return points;
+}
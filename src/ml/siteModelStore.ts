@@ -0,0 +1,83 @@
+/**
+ * Site Model Store
+ *
+ * Persists PINNs fine-tuned to site measurements in IndexedDB, one per
+ * project. The fine-tuning statistics and the manifest of the site model are
+ * stored with the weights as user-defined metadata.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import type { PINNManifest } from './pinnManifest';
+import type { ErrorMetrics } from './pinnBenchmark';
+
+export interface SiteModelInfo {
+    project: string;
+    baseVersion: string;         // Version of the fine-tuned base model
+    createdAt: string;           // ISO timestamp
+    observations: number;        // Measurements used for fine-tuning
+    heldOut: number;             // Latest measurements held out for scoring
+    dropped: number;             // Measurements outside the training envelope of the base model, not used
+    before: ErrorMetrics;        // Error on the held-out measurements before fine-tuning
+    after: ErrorMetrics;         // Error on the held-out measurements after fine-tuning
+}
+
+interface SiteModelMetadata {
+    siteModel: SiteModelInfo;
+    manifest: PINNManifest;
+}
+
+const STORE_PREFIX = 'indexeddb://floodpilot-pinn-site/';
+
+function storeUrl(project: string): string {
+    return STORE_PREFIX + encodeURIComponent(project);
+}
+
+/**
+ * Save a fine-tuned model for a project, replacing an earlier one
+ */
+export async function saveSiteModel(model: tf.LayersModel, info: SiteModelInfo, manifest: PINNManifest): Promise<void> {
+    const metadata: SiteModelMetadata = { siteModel: info, manifest };
+    model.setUserDefinedMetadata(metadata);
+    await model.save(storeUrl(info.project));
+}
+
+/**
+ * Load the fine-tuned model of a project, null if none is stored
+ */
+export async function loadSiteModel(
+    project: string,
+): Promise<{ model: tf.LayersModel; info: SiteModelInfo; manifest: PINNManifest } | null> {
+    const url = storeUrl(project);
+    if (!(url in await tf.io.listModels())) return null;
+
+    const model = await tf.loadLayersModel(url);
+    const metadata = model.getUserDefinedMetadata() as SiteModelMetadata | undefined;
+    if (!metadata?.siteModel || !metadata.manifest) {
+        model.dispose();
+        throw new Error(`Site model of '${project}' has no fine-tuning metadata or manifest`);
+    }
+    const info = metadata.siteModel;
+    // JSON stores NaN (e.g. MAPE without usable references) as null
+    return {
+        model,
+        info: { ...info, dropped: info.dropped ?? 0, before: restoreNaN(info.before), after: restoreNaN(info.after) },
+        manifest: metadata.manifest,
+    };
+}
+
+/**
+ * Delete the fine-tuned model of a project
+ */
+export async function deleteSiteModel(project: string): Promise<void> {
+    const url = storeUrl(project);
+    if (url in await tf.io.listModels()) await tf.io.removeModel(url);
+}
+
+function restoreNaN(metrics: ErrorMetrics): ErrorMetrics {
+    return {
+        rmse: metrics.rmse ?? NaN,
+        mape: metrics.mape ?? NaN,
+        maxError: metrics.maxError ?? NaN,
+        samples: metrics.samples,
+    };
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { generateTrainingData, splitDataset } from './syntheticData';
+import { createRandom } from './random';
+import { computeKinematicWaveAt } from './pinnModel';
+
+const OPTIONS = { scenarios: 12, spaceSteps: 3, timeSteps: 4 };
+
+describe('generateTrainingData', () => {
+    it('reproduces the dataset for a seed', () => {
+        const first = generateTrainingData({ ...OPTIONS, seed: 7 });
+        const second = generateTrainingData({ ...OPTIONS, seed: 7 });
+
+        expect(first.samples).toHaveLength(12 * 3 * 4);
+        expect(second).toEqual(first);
+    });
+
+    it('draws different scenarios for another seed', () => {
+        const first = generateTrainingData({ ...OPTIONS, seed: 7 });
+        const other = generateTrainingData({ ...OPTIONS, seed: 8 });
+
+        expect(other.samples).not.toEqual(first.samples);
+    });
+});
+
+describe('training targets', () => {
+    const { samples } = generateTrainingData({ ...OPTIONS, timeSteps: 9, noise: 0, seed: 7 });
+
+    it('follow the sustained-rain solution and never recede', () => {
+        const series = new Map<string, number[]>();
+        for (const { inputs, output } of samples) {
+            const [x, t, rainfall, slope, manningN, width] = inputs;
+            expect(output).toBeCloseTo(computeKinematicWaveAt({ x, t, rainfall, slope, manningN, width }).discharge, 9);
+
+            const key = [x, ...inputs.slice(2)].join(',');
+            series.set(key, [...series.get(key) ?? [], output]);
+        }
+
+        for (const outputs of series.values()) {
+            outputs.slice(1).forEach((output, i) => expect(output).toBeGreaterThanOrEqual(outputs[i]));
+        }
+    });
+
+    it('agree with finite rain at t = D, where the engine queries the network', () => {
+        const input = { x: 80, t: 15, rainfall: 150, slope: 0.01, manningN: 0.03, width: 20 };
+
+        expect(computeKinematicWaveAt(input, 15).discharge).toBeCloseTo(computeKinematicWaveAt(input).discharge, 9);
+        expect(computeKinematicWaveAt({ ...input, t: 40 }, 15).discharge).toBeLessThan(computeKinematicWaveAt({ ...input, t: 40 }).discharge);
+    });
+});
+
+describe('splitDataset', () => {
+    const { samples } = generateTrainingData({ ...OPTIONS, seed: 7 });
+
+    it('reproduces the split for a seed', () => {
+        const first = splitDataset(samples, 0.75, createRandom(3));
+        const second = splitDataset(samples, 0.75, createRandom(3));
+
+        expect(second).toEqual(first);
+        expect(first.train).toHaveLength(samples.length * 0.75);
+        expect(first.train.length + first.val.length).toBe(samples.length);
+    });
+
+    it('puts each scenario into one set only', () => {
+        const { train, val } = splitDataset(samples, 0.75, createRandom(3));
+        const scenarios = (set: typeof samples) => new Set(set.map(s => s.inputs.slice(2).join(',')));
+
+        expect(scenarios(train).size).toBe(9);
+        expect(scenarios(val).size).toBe(3);
+        expect([...scenarios(val)].some(key => scenarios(train).has(key))).toBe(false);
+    });
+});
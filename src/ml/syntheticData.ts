@@ -1,8 +1,20 @@
 /**
  * Synthetic Training Data Generator for PINN
+ *
+ * Targets are the kinematic wave solution by the method of characteristics
+ * under sustained rain: rising limb and equilibrium. Scenarios are drawn by
+ * seeded Latin hypercube sampling, so a seed reproduces the dataset exactly.
+ *
+ * The recession limb is left out on purpose. The network has no rain duration
+ * input, so after the rain stops one input (x, t, r, S, n, W) would carry
+ * different discharges for different durations — an ill-posed target. The
+ * engine only queries the PINN at t = D, where sustained and finite rain agree;
+ * recession is taken from the analytical hydrograph and the numerical solver.
  */
 
-import { computeKinematicWaveSolution, type KinematicWaveParams } from './pinnModel';
+import { computeKinematicWaveAt, type KinematicWaveParams } from './pinnModel';
+import { PINN_INPUTS } from './pinnManifest';
+import { createRandom, latinHypercube, shuffle, DEFAULT_SEED, type RandomSource } from './random';
 
 export interface TrainingSample {
     inputs: number[];
@@ -17,66 +29,128 @@ export interface TrainingDataset {
     outputStd: number;
 }
 
-const PARAM_RANGES = {
-    length: { min: 50, max: 200, samples: 5 },
-    rainfall: { min: 10, max: 100, samples: 6 },
-    slope: { min: 0.005, max: 0.15, samples: 5 },
-    manningN: { min: 0.01, max: 0.05, samples: 4 },
-    width: { min: 5, max: 20, samples: 3 },
+export interface ParamRange {
+    min: number;
+    max: number;
+}
+
+export interface ParamRanges {
+    length: ParamRange;    // Flow path length (m)
+    rainfall: ParamRange;  // Rainfall intensity (mm/hr)
+    slope: ParamRange;     // Surface slope (m/m)
+    manningN: ParamRange;  // Manning's n
+    width: ParamRange;     // Catchment width (m)
+}
+
+export interface SyntheticDataOptions {
+    ranges: ParamRanges;
+    scenarios: number;   // Parameter combinations drawn by Latin hypercube sampling
+    spaceSteps: number;  // Sample positions per scenario, 0…length
+    timeSteps: number;   // Sample times per scenario, 0…maxTime
+    maxTime: number;     // Last sample time (min)
+    noise: number;       // Relative target noise (peak to peak)
+    seed: number;
+}
+
+/**
+ * Default parameter ranges
+ * Rainfall covers the 175–220 mm/h design storms of the DIN 1986-100 check,
+ * width the √A plane width the engine uses for plots up to 10 000 m².
+ */
+export const DEFAULT_PARAM_RANGES: ParamRanges = {
+    length: { min: 20, max: 200 },
+    rainfall: { min: 10, max: 250 },
+    slope: { min: 0.005, max: 0.15 },
+    manningN: { min: 0.01, max: 0.05 },
+    width: { min: 5, max: 100 },
 };
 
-const TIME_STEPS = 10;
-const SPACE_STEPS = 5;
+export const DEFAULT_SYNTHETIC_OPTIONS: SyntheticDataOptions = {
+    ranges: DEFAULT_PARAM_RANGES,
+    scenarios: 1500,
+    spaceSteps: 5,
+    timeSteps: 13,
+    maxTime: 120,
+    noise: 0.05,
+    seed: DEFAULT_SEED,
+};
 
 function linspace(min: number, max: number, n: number): number[] {
     const step = (max - min) / (n - 1);
     return Array.from({ length: n }, (_, i) => min + i * step);
 }
 
-function generateSampleAtPoint(x: number, t: number, params: KinematicWaveParams): TrainingSample {
-    const solution = computeKinematicWaveSolution(params);
-    const t_ratio = Math.min(t / solution.timeToPeak, 1.0);
-    const x_ratio = x / params.length;
-    const discharge = solution.peakDischarge * t_ratio * x_ratio;
-    const noise = (Math.random() - 0.5) * 0.05 * discharge;
+function lerp(range: ParamRange, u: number): number {
+    return range.min + (range.max - range.min) * u;
+}
+
+function generateSampleAtPoint(
+    x: number,
+    t: number,
+    params: KinematicWaveParams,
+    noise: number,
+    random: RandomSource,
+): TrainingSample {
+    const { rainfall, slope, manningN, width } = params;
+    const { discharge } = computeKinematicWaveAt({ x, t, rainfall, slope, manningN, width });
     return {
-        inputs: [x, t, params.rainfall, params.slope, params.manningN],
-        output: Math.max(0, discharge + noise),
+        inputs: [x, t, rainfall, slope, manningN, width],
+        output: Math.max(0, discharge * (1 + (random() - 0.5) * noise)),
     };
 }
 
-function getParamCombos(): KinematicWaveParams[] {
-    const combos: KinematicWaveParams[] = [];
-    const lengths = linspace(PARAM_RANGES.length.min, PARAM_RANGES.length.max, PARAM_RANGES.length.samples);
-    const rainfalls = linspace(PARAM_RANGES.rainfall.min, PARAM_RANGES.rainfall.max, PARAM_RANGES.rainfall.samples);
-    const slopes = linspace(PARAM_RANGES.slope.min, PARAM_RANGES.slope.max, PARAM_RANGES.slope.samples);
-    const mNs = linspace(PARAM_RANGES.manningN.min, PARAM_RANGES.manningN.max, PARAM_RANGES.manningN.samples);
-    const widths = linspace(PARAM_RANGES.width.min, PARAM_RANGES.width.max, PARAM_RANGES.width.samples);
-
-    lengths.forEach(length => rainfalls.forEach(rainfall => slopes.forEach(slope => mNs.forEach(manningN => widths.forEach(width => {
-        combos.push({ length, rainfall, slope, manningN, width });
-    })))));
-    return combos;
+function getParamCombos(opts: SyntheticDataOptions, random: RandomSource): KinematicWaveParams[] {
+    const { ranges } = opts;
+
+    return latinHypercube(opts.scenarios, 5, random).map(u => ({
+        length: lerp(ranges.length, u[0]),
+        rainfall: lerp(ranges.rainfall, u[1]),
+        slope: lerp(ranges.slope, u[2]),
+        manningN: lerp(ranges.manningN, u[3]),
+        width: lerp(ranges.width, u[4]),
+    }));
 }
 
-function addSamplesForParams(samples: TrainingSample[], params: KinematicWaveParams): void {
-    const xPos = linspace(0, params.length, SPACE_STEPS);
-    const tPos = linspace(0, 60, TIME_STEPS);
-    xPos.forEach(x => tPos.forEach(t => samples.push(generateSampleAtPoint(x, t, params))));
+function addSamplesForParams(
+    samples: TrainingSample[],
+    params: KinematicWaveParams,
+    opts: SyntheticDataOptions,
+    random: RandomSource,
+): void {
+    const xPos = linspace(0, params.length, opts.spaceSteps);
+    const tPos = linspace(0, opts.maxTime, opts.timeSteps);
+    xPos.forEach(x => tPos.forEach(t => samples.push(generateSampleAtPoint(x, t, params, opts.noise, random))));
 }
 
-export function generateTrainingData(): TrainingDataset {
+/**
+ * Generate the labelled training samples
+ *
+ * @param options - Overrides of DEFAULT_SYNTHETIC_OPTIONS; ranges are merged per parameter
+ */
+export function generateTrainingData(
+    options: Partial<Omit<SyntheticDataOptions, 'ranges'>> & { ranges?: Partial<ParamRanges> } = {},
+): TrainingDataset {
+    const opts: SyntheticDataOptions = {
+        ...DEFAULT_SYNTHETIC_OPTIONS,
+        ...options,
+        ranges: { ...DEFAULT_SYNTHETIC_OPTIONS.ranges, ...options.ranges },
+    };
+    const random = createRandom(opts.seed);
+
     const samples: TrainingSample[] = [];
-    getParamCombos().forEach(params => addSamplesForParams(samples, params));
+    getParamCombos(opts, random).forEach(params => addSamplesForParams(samples, params, opts, random));
 
     const stats = computeStats(samples);
     return { samples, ...stats };
 }
 
 function computeStats(samples: TrainingSample[]): Omit<TrainingDataset, 'samples'> {
-    if (samples.length === 0) return { inputMeans: [0, 0, 0, 0, 0], inputStds: [1, 1, 1, 1, 1], outputMean: 0, outputStd: 1 };
+    const columns = PINN_INPUTS.length;
+    if (samples.length === 0) {
+        return { inputMeans: new Array(columns).fill(0), inputStds: new Array(columns).fill(1), outputMean: 0, outputStd: 1 };
+    }
 
-    const inputMeans = [0, 0, 0, 0, 0];
+    const inputMeans = new Array<number>(columns).fill(0);
     let outputMean = 0;
     samples.forEach(s => {
         s.inputs.forEach((v, i) => inputMeans[i] += v);
@@ -85,7 +159,7 @@ function computeStats(samples: TrainingSample[]): Omit<TrainingDataset, 'samples
     inputMeans.forEach((_, i) => inputMeans[i] /= samples.length);
     outputMean /= samples.length;
 
-    const inputStds = [0, 0, 0, 0, 0];
+    const inputStds = new Array<number>(columns).fill(0);
     let outputStd = 0;
     samples.forEach(s => {
         s.inputs.forEach((v, i) => inputStds[i] += Math.pow(v - inputMeans[i], 2));
@@ -97,29 +171,67 @@ function computeStats(samples: TrainingSample[]): Omit<TrainingDataset, 'samples
     return { inputMeans, inputStds, outputMean, outputStd };
 }
 
-export function generateBoundaryData(): TrainingSample[] {
+/**
+ * Boundary and initial condition samples: no inflow at x = 0, dry plane at t = 0
+ * Parameter combinations are drawn by Latin hypercube sampling.
+ */
+export function generateBoundaryData(
+    random: RandomSource = createRandom(),
+    ranges: ParamRanges = DEFAULT_PARAM_RANGES,
+    combos: number = 36,
+): TrainingSample[] {
     const samples: TrainingSample[] = [];
-    const r = [25, 50, 75, 100];
-    const s = [0.01, 0.05, 0.10];
-    const n = [0.01, 0.02, 0.03];
-
-    r.forEach(rainfall => s.forEach(slope => n.forEach(manningN => {
-        addBoundaryPoints(samples, rainfall, slope, manningN);
-    })));
+    latinHypercube(combos, 4, random).forEach(u => {
+        addBoundaryPoints(samples, ranges.length.max, [
+            lerp(ranges.rainfall, u[0]),
+            lerp(ranges.slope, u[1]),
+            lerp(ranges.manningN, u[2]),
+            lerp(ranges.width, u[3]),
+        ]);
+    });
     return samples;
 }
 
-function addBoundaryPoints(samples: TrainingSample[], rainfall: number, slope: number, manningN: number): void {
-    for (let t = 0; t <= 60; t += 5) {
-        samples.push({ inputs: [0, t, rainfall, slope, manningN], output: 0.01 });
-    }
-    for (let x = 0; x <= 100; x += 10) {
-        samples.push({ inputs: [x, 0, rainfall, slope, manningN], output: 0 });
-    }
+/** Zero-discharge points for one [rainfall, slope, manningN, width] combination */
+function addBoundaryPoints(samples: TrainingSample[], length: number, parameters: number[]): void {
+    linspace(0, DEFAULT_SYNTHETIC_OPTIONS.maxTime, 13).forEach(t => {
+        samples.push({ inputs: [0, t, ...parameters], output: 0 });
+    });
+    linspace(0, length, 11).forEach(x => {
+        samples.push({ inputs: [x, 0, ...parameters], output: 0 });
+    });
 }
 
-export function splitDataset(samples: TrainingSample[], trainRatio: number = 0.8): { train: TrainingSample[]; val: TrainingSample[] } {
-    const shuffled = [...samples].sort(() => Math.random() - 0.5);
-    const splitIndex = Math.floor(shuffled.length * trainRatio);
-    return { train: shuffled.slice(0, splitIndex), val: shuffled.slice(splitIndex) };
+/**
+ * Split samples into training and validation sets
+ *
+ * Grouped by parameter combination (rainfall, slope, n, width), i.e. by
+ * scenario: each scenario goes to one set as a whole, so validation scores
+ * the model on scenarios it was not trained on. Scenarios are assigned in
+ * Fisher–Yates order until the training set holds trainRatio of the samples,
+ * so a seed reproduces the split exactly.
+ */
+export function splitDataset(
+    samples: TrainingSample[],
+    trainRatio: number = 0.8,
+    random: RandomSource = createRandom(),
+): { train: TrainingSample[]; val: TrainingSample[] } {
+    const scenarios = new Map<string, TrainingSample[]>();
+    samples.forEach(sample => {
+        const key = sample.inputs.slice(2).join(',');
+        const scenario = scenarios.get(key);
+        if (scenario) scenario.push(sample);
+        else scenarios.set(key, [sample]);
+    });
+
+    const target = Math.round(samples.length * trainRatio);
+    const train: TrainingSample[] = [];
+    const val: TrainingSample[] = [];
+    shuffle([...scenarios.values()], random).forEach(scenario => {
+        // Take the scenario if that brings the training set closer to the target
+        if (train.length + scenario.length / 2 <= target) train.push(...scenario);
+        else val.push(...scenario);
+    });
+
+    return { train: shuffle(train, random), val: shuffle(val, random) };
 }
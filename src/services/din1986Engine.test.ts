@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    computeUeberflutungsvolumen,
+    gefaelle,
+    performDIN1986Assessment,
+    performDIN1986AssessmentAsync,
+    type DIN1986Input,
+} from './din1986Engine';
+import { getRainIntensity, lookupKostraRainfall } from './kostraProvider';
+import { computeKinematicWaveSolution } from '../ml/pinnModel';
+import * as tf from '@tensorflow/tfjs';
+import { disposeModel, setModel } from '../ml/modelRegistry';
+import { buildManifest } from '../ml/pinnManifest';
+import { NORMALIZATION } from '../ml/pinnConstants';
+
+const INPUT: DIN1986Input = {
+    projectName: 'Test',
+    grundstuecksflaeche: 2000,
+    versiegelteFlaeche: 1400,
+    bodenart: 'SU',
+    gelaendeneigung: 2.0,
+    manningN: 0.015,
+    fliesslaenge: 50,
+    drosselabfluss: 50,
+    verfuegbaresRueckhaltevolumen: 80,
+    drosselabflussspende: 10,
+    latitude: 52.52,
+    longitude: 13.405,
+};
+
+describe('performDIN1986Assessment', () => {
+    it('rejects a site without area', () => {
+        const teilflaechen = [{ typ: 'dach_flach' as const, flaeche: 0 }];
+        expect(() => performDIN1986Assessment({ ...INPUT, teilflaechen })).toThrow(/größer als 0/);
+    });
+
+    it('does not count green roofs as sealed', () => {
+        const result = performDIN1986Assessment({
+            ...INPUT,
+            teilflaechen: [
+                { typ: 'dach_flach', flaeche: 900 },
+                { typ: 'extensivbegruenunng', flaeche: 600 },
+            ],
+        });
+        expect(result.abflusswirksameFlaeche).toBe(900);
+        expect(result.bemessungsregenJahre).toBe(30);
+    });
+
+    it('sizes V_Rück with r(D,30) when the overflow check uses T=100', () => {
+        const result = performDIN1986Assessment(INPUT);
+        expect(result.bemessungsregenJahre).toBe(100);
+
+        for (const stufe of result.dauerstufen) {
+            const expected = computeUeberflutungsvolumen(
+                getRainIntensity(result.niederschlag, stufe.dauer, 30),
+                stufe.dauer, result.flaechenaufteilung.gesamtflaeche, INPUT.drosselabfluss, result.mittlererAbflussbeiwert,
+            );
+            expect(stufe.rueckhaltevolumen).toBeCloseTo(expected, 6);
+        }
+    });
+});
+
+describe('computeModellregenAbfluss', () => {
+    it('is not computed without a model rain', () => {
+        expect(performDIN1986Assessment(INPUT).modellregenAbfluss).toBeNull();
+    });
+
+    it('routes a block rain to the analytical peak for its duration', () => {
+        const result = performDIN1986Assessment({ ...INPUT, modellregen: 'block' });
+        const abfluss = result.modellregenAbfluss!;
+        const analytisch = computeKinematicWaveSolution({
+            length: INPUT.fliesslaenge,
+            rainfall: getRainIntensity(result.niederschlag, abfluss.dauer, result.bemessungsregenJahre),
+            slope: gefaelle(INPUT),
+            manningN: INPUT.manningN,
+            width: Math.sqrt(result.flaechenaufteilung.gesamtflaeche),
+            duration: abfluss.dauer,
+        });
+
+        expect(abfluss.spitzenabfluss).toBeCloseTo(analytisch.peakDischarge, -1);
+        expect(abfluss.ganglinie.discharge).toHaveLength(abfluss.ganglinie.time.length);
+    });
+
+    it('peaks at least as high for Euler Typ II as the short constant-intensity rain', () => {
+        const result = performDIN1986Assessment({ ...INPUT, modellregen: 'euler2' });
+        const block = performDIN1986Assessment({ ...INPUT, modellregen: 'block' }).modellregenAbfluss!;
+
+        expect(result.modellregenAbfluss!.spitzenabfluss).toBeGreaterThan(block.spitzenabfluss);
+        expect(result.modellregenAbfluss!.spitzenabfluss).toBeGreaterThanOrEqual(result.kinematischeWelle.peakDischarge * 0.95);
+    });
+});
+
+describe('gefaelle', () => {
+    it('clamps flat sites to the minimum slope used by the analytical path and the PINN', () => {
+        expect(gefaelle({ gelaendeneigung: 0 })).toBe(0.001);
+        expect(gefaelle({ gelaendeneigung: 2 })).toBe(0.02);
+    });
+});
+
+describe('performDIN1986AssessmentAsync', () => {
+    afterEach(() => {
+        disposeModel();
+        vi.unstubAllGlobals();
+    });
+
+    it('returns the analytical result without a trained model', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 404 })));
+
+        const result = await performDIN1986AssessmentAsync(INPUT);
+        expect(result.abflussMethode).toBe('ANALYTISCH');
+        expect(result.spitzenabflussPINN).toBe(result.kinematischeWelle.peakDischarge);
+        expect(result.pinnVergleich).toBeNull();
+        expect(result.spitzenabflussPINNIntervall).toBeNull();
+        expect(result.pinnModell).toBeNull();
+    });
+
+    it('drops the interval of a PINN the hybrid policy rejects', async () => {
+        // Constant 1000 L/s, far above the analytical peak
+        const model = tf.sequential({ layers: [tf.layers.dense({ units: 1, inputShape: [6], biasInitializer: 'ones', kernelInitializer: 'zeros' })] });
+        setModel(model, buildManifest('1.0.0', structuredClone(NORMALIZATION), { rmse: 1, mape: 1, samples: 10 }));
+
+        // Half the bundled depths keep the governing intensity inside the training envelope
+        const table = lookupKostraRainfall(INPUT.latitude, INPUT.longitude);
+        const niederschlag = { ...table, depths: table.depths.map(row => row.map(depth => depth / 2)) };
+
+        const result = await performDIN1986AssessmentAsync({ ...INPUT, niederschlag });
+        expect(result.pinnGueltigkeit.outOfDistribution).toBe(false);
+        expect(result.pinnVergleich?.uebereinstimmung).toBe(false);
+        expect(result.abflussMethode).toBe('ANALYTISCH');
+        expect(result.spitzenabflussPINNIntervall).toBeNull();
+    });
+});
@@ -7,8 +7,32 @@
  * Co-Pilot for Civil Engineers — FloodPilot
  */
 
-import { computePeakRunoff, computeWQv, RUNOFF_COEFFICIENTS } from '../utils/hydrology';
-import { computeKinematicWaveSolution, type KinematicWaveResult } from '../ml/pinnModel';
+import { computePeakRunoff, computeWQv } from '../utils/hydrology';
+import { sizeInfiltrationSystem, type InfiltrationSizingResult, type InfiltrationSystemType } from '../utils/dwaA138';
+import {
+    computeKinematicWaveHydrograph,
+    computeKinematicWaveSolution,
+    type KinematicWaveHydrograph,
+    type KinematicWaveParams,
+    type KinematicWaveResult,
+    type PINNInput,
+} from '../ml/pinnModel';
+import { checkTrainingEnvelope, estimatePINNInterval, runPINNInference } from '../ml/pinnInference';
+import { getModelManifest, loadModel, activateSiteModel } from '../ml/modelRegistry';
+import type { SiteModelInfo } from '../ml/siteModelStore';
+import { acceptsPINN } from '../ml/hybridPolicy';
+import type { PredictionInterval } from '../ml/mcDropout';
+import { describeEnvelopeCheck, describeModelManifest, type EnvelopeCheck, type PINNManifest } from '../ml/pinnManifest';
+import {
+    describeKostraSource,
+    getRainIntensity,
+    lookupKostraRainfall,
+    toRegenspende,
+    type KostraRainfallTable,
+} from './kostraProvider';
+import { sizeRetentionBasin, type RetentionSizingResult } from './dwaA117Retention';
+import { buildDesignStorm, DESIGN_STORM_DURATIONS, HYETOGRAPH_LABELS, type HyetographType } from '../utils/hyetograph';
+import { solveKinematicWave } from '../ml/kinematicWaveSolver';
 
 // ============ Types ============
 
@@ -27,10 +51,141 @@ export interface DIN1986Input {
     manningN: number;
     /** Flow path length in m */
     fliesslaenge: number;
-    /** Latitude for location context */
+    /** Pipe-full capacity Q_voll or permitted throttle outflow (Drosselabfluss) in L/s */
+    drosselabfluss: number;
+    /** Volume that can be retained on site without damage in m³ */
+    verfuegbaresRueckhaltevolumen: number;
+    /** Optional permitted throttle rate (Drosselabflussspende) in L/(s·ha) for DWA-A 117 retention sizing */
+    drosselabflussspende?: number;
+    /** Latitude (WGS84) for KOSTRA-DWD cell lookup */
     latitude: number;
-    /** Longitude for location context */
+    /** Longitude (WGS84) for KOSTRA-DWD cell lookup */
     longitude: number;
+    /** Optional intensity-duration-frequency table, overrides the KOSTRA-DWD cell lookup */
+    niederschlag?: KostraRainfallTable;
+    /** Optional sub-areas; when given they define total and impervious area */
+    teilflaechen?: Teilflaeche[];
+    /** Optional infiltration systems to size per DWA-A 138 */
+    versickerungsanlagen?: Versickerungsanlage[];
+    /** Optional model rain, routed over the plane by the numerical kinematic wave */
+    modellregen?: HyetographType;
+}
+
+export type Flaechentyp = keyof typeof DIN_RUNOFF_COEFFICIENTS;
+
+export interface Teilflaeche {
+    /** Optional label, e.g. 'Dach Halle A' */
+    bezeichnung?: string;
+    /** Surface type per DIN 1986-100 Tabelle 9 */
+    typ: Flaechentyp;
+    /** Area in m² */
+    flaeche: number;
+}
+
+export interface TeilflaechenErgebnis extends Teilflaeche {
+    /** Peak runoff coefficient Ψs */
+    psiS: number;
+    /** Mean runoff coefficient Ψm */
+    psiM: number;
+}
+
+export interface Flaechenbilanz {
+    teilflaechen: TeilflaechenErgebnis[];
+    /** Sum of all sub-areas in m² */
+    gesamtflaeche: number;
+    /** Sum of sealed sub-areas in m² */
+    versiegelteFlaeche: number;
+    /** Area-weighted peak runoff coefficient Ψs */
+    psiS: number;
+    /** Area-weighted mean runoff coefficient Ψm */
+    psiM: number;
+}
+
+export interface Versickerungsanlage {
+    /** Optional label, e.g. 'Mulde Parkplatz' */
+    bezeichnung?: string;
+    /** System type: Mulde, Rigole or Mulden-Rigole */
+    typ: InfiltrationSystemType;
+    /** Connected impervious area A_u in m² */
+    angeschlosseneFlaeche: number;
+}
+
+export interface VersickerungsanlagenErgebnis extends Versickerungsanlage {
+    /** DWA-A 138 sizing, null if infiltration is not permitted */
+    bemessung: InfiltrationSizingResult | null;
+}
+
+export interface DauerstufenErgebnis {
+    /** Rain duration D in min */
+    dauer: number;
+    /** Rainfall intensity r(D,T) in mm/hr */
+    regenspende: number;
+    /** Peak discharge Q in L/s (Rational Method, reduced for D < t_e) */
+    spitzenabflussRational: number;
+    /** Peak discharge Q in L/s (Kinematic Wave) */
+    spitzenabflussKinematisch: number;
+    /** Überflutungsvolumen V_Rück for this duration in m³ (DIN 1986-100 Gl. 20, always r(D,30)) */
+    rueckhaltevolumen: number;
+}
+
+export interface VersickerungsNachweis {
+    /** Permeability range of the soil class in m/s */
+    kfMin: number;
+    kfMax: number;
+    /** Design permeability (geometric mean × correction factor) in m/s */
+    kfBemessung: number;
+    /** Whether infiltration is permitted per DWA-A 138 (1·10⁻⁶ ≤ kf ≤ 1·10⁻³ m/s) */
+    zulaessig: boolean;
+    /** Reason for approval / rejection */
+    begruendung: string;
+    /** Suggested infiltration system */
+    anlagentyp: 'Mulde' | 'Mulden-Rigole' | null;
+    /** Required storage volume in m³ (0 if not permitted) */
+    erforderlichesVolumen: number;
+    /** Infiltration area A_s in m² */
+    versickerungsflaeche: number;
+    /** Rain duration D in min that governs the volume */
+    massgebendeDauer: number;
+    /** Emptying time in h */
+    entleerungszeit: number;
+}
+
+export interface AssessmentOptions {
+    /** Progress callback: current step and completed fraction 0-1 */
+    onProgress?: (schritt: string, anteil: number) => void;
+    /** Aborts between steps */
+    signal?: AbortSignal;
+}
+
+/** Method that produced the reported kinematic wave peak */
+export type AbflussMethode = 'PINN' | 'ANALYTISCH';
+
+export interface PINNMethodenvergleich {
+    /** PINN peak (MC dropout mean) scaled to the catchment width in L/s */
+    spitzenabflussPINN: number;
+    /** Analytical kinematic wave peak in L/s */
+    spitzenabflussAnalytisch: number;
+    /** Relative deviation PINN / analytisch − 1 */
+    abweichung: number;
+    /** Whether the hybrid policy accepts the PINN against the analytical peak — only then it is reported */
+    uebereinstimmung: boolean;
+}
+
+export interface ModellregenAbfluss {
+    /** Model rain type */
+    typ: HyetographType;
+    /** Governing rain duration D in min (maximum peak over DESIGN_STORM_DURATIONS) */
+    dauer: number;
+    /** Return period T in years */
+    wiederkehrzeit: number;
+    /** Rainfall depth hN(D,T) in mm */
+    regenhoehe: number;
+    /** Peak outlet discharge in L/s */
+    spitzenabfluss: number;
+    /** Time of the peak since start of rainfall in min */
+    zeitBisSpitze: number;
+    /** Outlet hydrograph Q(t), h(t) */
+    ganglinie: Omit<KinematicWaveHydrograph, 'timeToEquilibrium'>;
 }
 
 export interface DIN1986Result {
@@ -44,20 +199,58 @@ export interface DIN1986Result {
     versiegelungsgrad: number;
     /** Design storm return period applied */
     bemessungsregenJahre: 30 | 100;
-    /** Rainfall intensity for design storm in mm/hr */
+    /** Governing rain duration D in min (§14.9.2 duration scan) */
+    massgebendeDauer: number;
+    /** Rainfall intensity r(D,T) for the governing duration in mm/hr */
     regenspende: number;
-    /** Weighted runoff coefficient Ψ */
-    abflussbeiwert: number;
+    /** Duration scan D = 5…1440 min */
+    dauerstufen: DauerstufenErgebnis[];
+    /** KOSTRA-DWD rainfall table used (cell, data version, D × T depths) */
+    niederschlag: KostraRainfallTable;
+    /** Peak runoff coefficient C_s (area-weighted Ψs), used for pipe sizing / peak discharge */
+    spitzenabflussbeiwert: number;
+    /** Mean runoff coefficient C_m (area-weighted Ψm), used for volume checks */
+    mittlererAbflussbeiwert: number;
+    /** Surface breakdown with per-surface Ψs / Ψm (Tabelle 9) */
+    flaechenaufteilung: Flaechenbilanz;
     /** Peak discharge Q in L/s (Rational Method) */
     spitzenabflussRational: number;
     /** Peak discharge Q in L/s (PINN / Kinematic Wave) */
     spitzenabflussPINN: number;
-    /** Required retention volume in m³ */
+    /** MC dropout interval of the PINN peak in L/s, null without a model, outside the training envelope or if the PINN was rejected */
+    spitzenabflussPINNIntervall: PredictionInterval | null;
+    /** Method that produced spitzenabflussPINN */
+    abflussMethode: AbflussMethode;
+    /** PINN vs. analytical peak, null if the network was not evaluated */
+    pinnVergleich: PINNMethodenvergleich | null;
+    /** PINN fine-tuned to site measurements of the project, null for the shipped model */
+    standortmodell: SiteModelInfo | null;
+    /** Required retention volume V_Rück in m³ (DIN 1986-100 Gl. 20, maximum over D) */
     rueckhaltevolumen: number;
+    /** Rain duration D in min that governs V_Rück */
+    massgebendeDauerRueckhaltung: number;
+    /** Pipe-full capacity / throttle outflow Q_voll applied in L/s */
+    drosselabfluss: number;
+    /** Volume that can be retained on site without damage in m³ */
+    verfuegbaresRueckhaltevolumen: number;
     /** Water quality volume in L */
     wasserqualitaetsvolumen: number;
+    /** DWA-A 138 infiltration check from soil permeability */
+    versickerung: VersickerungsNachweis;
+    /** User-defined infiltration systems sized per DWA-A 138 */
+    versickerungsanlagen: VersickerungsanlagenErgebnis[];
+    /** DWA-A 117 retention basin for the throttle rate, null if no rate (or 0) is given */
+    regenrueckhalteraum: RetentionSizingResult | null;
     /** Kinematic wave analysis results */
     kinematischeWelle: KinematicWaveResult;
+    /** Outlet hydrograph Q(t), h(t) for the governing kinematic wave duration */
+    ganglinie: KinematicWaveHydrograph;
+    /** Response to the selected model rain (numerical kinematic wave), null if none is selected */
+    modellregenAbfluss: ModellregenAbfluss | null;
+    /** Manifest of the loaded pre-trained PINN, null if none is loaded */
+    pinnModell: PINNManifest | null;
+    /** Training envelope check of the governing kinematic wave inputs — outside it the analytical solution is used */
+    pinnGueltigkeit: EnvelopeCheck;
     /** Compliance status */
     nachweisStatus: 'BESTANDEN' | 'NICHT_BESTANDEN' | 'PRUEFUNG_ERFORDERLICH';
     /** ISO timestamp */
@@ -66,21 +259,16 @@ export interface DIN1986Result {
     empfehlungen: string[];
 }
 
-// ============ Berlin KOSTRA-DWD Rainfall Data ============
+// ============ Rainfall ============
 
-/**
- * KOSTRA-DWD 2020 rainfall intensities for Berlin
- * Duration: 15 min (critical for urban drainage)
- * Values in mm/hr
- */
-const BERLIN_KOSTRA: Record<number, number> = {
-    2: 95,     // T=2a
-    5: 125,    // T=5a
-    10: 145,   // T=10a
-    30: 175,   // T=30a (DIN 1986-100 standard)
-    50: 195,   // T=50a
-    100: 220,  // T=100a (DIN 1986-100 for high impervious)
-};
+/** Rain durations scanned for the critical duration per DIN 1986-100 §14.9.2 (min) */
+const DAUERSTUFEN_MIN = [5, 10, 15, 20, 30, 45, 60, 90, 120, 180, 240, 360, 540, 720, 1080, 1440];
+
+/** Minimum surface slope (m/m) for the kinematic wave and the PINN */
+const MIN_GEFAELLE = 0.001;
+
+/** Return period of the rain in Gl. 20 (a), independent of the overflow-check return period */
+const RUECKHALTUNG_JAHRE = 30;
 
 /**
  * Soil type to SCS group mapping (German DIN 18196 → SCS)
@@ -95,28 +283,95 @@ const SOIL_SCS_MAP: Record<DIN1986Input['bodenart'], 'A' | 'B' | 'C' | 'D'> = {
 };
 
 /**
- * Runoff coefficients per surface type (DWA-A 117 / DIN 1986-100)
+ * Permeability ranges per soil class (DIN 18196), kf in m/s
+ */
+const SOIL_KF_RANGES: Record<DIN1986Input['bodenart'], { min: number; max: number }> = {
+    'GW': { min: 1e-4, max: 1e-2 },   // Kies, gut abgestuft
+    'GI': { min: 1e-3, max: 1e-1 },   // Kies, intermittierend
+    'SE': { min: 1e-5, max: 1e-3 },   // Sand, eng gestuft
+    'SU': { min: 1e-6, max: 1e-4 },   // Sand, schluffig
+    'TL': { min: 1e-10, max: 1e-8 },  // Ton, leicht plastisch
+    'TM': { min: 1e-11, max: 1e-9 },  // Ton, mittel plastisch
+};
+
+/** Display names of the peak discharge methods */
+const ABFLUSSMETHODE_LABELS: Record<AbflussMethode, string> = {
+    PINN: 'PINN (MC-Dropout-Mittel)',
+    ANALYTISCH: 'Kinematische Welle (analytisch)',
+};
+
+/** DWA-A 138 permitted permeability range in m/s */
+const DWA_A138_KF = { min: 1e-6, max: 1e-3 };
+
+/** DWA-A 138 correction factor for kf estimated from grain size / soil class */
+const KF_KORREKTURFAKTOR = 0.2;
+
+/** Display names of the DWA-A 138 system types */
+const ANLAGENTYP_LABELS: Record<InfiltrationSystemType, string> = {
+    mulde: 'Mulde',
+    rigole: 'Rigole',
+    mulden_rigole: 'Mulden-Rigole',
+};
+
+/**
+ * Runoff coefficients per surface type (DIN 1986-100 Tabelle 9)
+ * cs = Spitzenabflussbeiwert Ψs, cm = mittlerer Abflussbeiwert Ψm
+ * Green roofs retain water and do not count towards the sealed area.
  */
 const DIN_RUNOFF_COEFFICIENTS = {
-    dach_flach: 0.9,         // Flachdach
-    dach_steil: 0.9,         // Steildach
-    asphalt_beton: 0.9,      // Asphalt/Beton
-    pflaster_fugen: 0.75,    // Pflaster mit Fugen
-    kies_schotter: 0.3,      // Kies/Schotter
-    gruenflaeche: 0.15,      // Grünfläche
-    extensivbegruenunng: 0.3, // Extensive Dachbegrünung
-    intensivbegruenunng: 0.1, // Intensive Dachbegrünung
+    dach_flach: { label: 'Flachdach', cs: 1.0, cm: 0.9, versiegelt: true },
+    dach_steil: { label: 'Steildach', cs: 1.0, cm: 0.9, versiegelt: true },
+    asphalt_beton: { label: 'Asphalt/Beton', cs: 1.0, cm: 0.9, versiegelt: true },
+    pflaster_fugen: { label: 'Pflaster mit Fugen', cs: 0.9, cm: 0.75, versiegelt: true },
+    kies_schotter: { label: 'Kies/Schotter', cs: 0.6, cm: 0.3, versiegelt: false },
+    gruenflaeche: { label: 'Grünfläche', cs: 0.3, cm: 0.15, versiegelt: false },
+    extensivbegruenunng: { label: 'Extensive Dachbegrünung', cs: 0.5, cm: 0.3, versiegelt: false },
+    intensivbegruenunng: { label: 'Intensive Dachbegrünung', cs: 0.2, cm: 0.1, versiegelt: false },
 };
 
+/**
+ * Area balance from sub-areas
+ * Without explicit sub-areas the site is split into Asphalt/Beton (sealed) and Grünfläche.
+ */
+export function computeFlaechenbilanz(input: DIN1986Input): Flaechenbilanz {
+    const flaechen: Teilflaeche[] = input.teilflaechen?.length
+        ? input.teilflaechen
+        : [
+            { bezeichnung: 'Versiegelte Fläche', typ: 'asphalt_beton', flaeche: input.versiegelteFlaeche },
+            { bezeichnung: 'Unversiegelte Fläche', typ: 'gruenflaeche', flaeche: Math.max(0, input.grundstuecksflaeche - input.versiegelteFlaeche) },
+        ];
+
+    const teilflaechen = flaechen.map(f => ({
+        ...f,
+        psiS: DIN_RUNOFF_COEFFICIENTS[f.typ].cs,
+        psiM: DIN_RUNOFF_COEFFICIENTS[f.typ].cm,
+    }));
+
+    const gesamtflaeche = teilflaechen.reduce((sum, f) => sum + f.flaeche, 0);
+    const versiegelteFlaeche = teilflaechen
+        .filter(f => DIN_RUNOFF_COEFFICIENTS[f.typ].versiegelt)
+        .reduce((sum, f) => sum + f.flaeche, 0);
+    const weighted = (key: 'psiS' | 'psiM') => gesamtflaeche > 0
+        ? teilflaechen.reduce((sum, f) => sum + f.flaeche * f[key], 0) / gesamtflaeche
+        : 0;
+
+    return { teilflaechen, gesamtflaeche, versiegelteFlaeche, psiS: weighted('psiS'), psiM: weighted('psiM') };
+}
+
 // ============ Core Engine ============
 
 /**
  * Perform DIN 1986-100 Überflutungsnachweis assessment
  */
 export function performDIN1986Assessment(input: DIN1986Input): DIN1986Result {
-    // 1. Calculate abflusswirksame Fläche
-    const abflusswirksameFlaeche = input.versiegelteFlaeche;
-    const versiegelungsgrad = input.versiegelteFlaeche / input.grundstuecksflaeche;
+    // 1. Calculate areas from the surface breakdown
+    const flaechenaufteilung = computeFlaechenbilanz(input);
+    const grundstuecksflaeche = flaechenaufteilung.gesamtflaeche;
+    if (!(grundstuecksflaeche > 0)) {
+        throw new Error('Grundstücksfläche muss größer als 0 m² sein — Teilflächen mit Fläche angeben');
+    }
+    const abflusswirksameFlaeche = flaechenaufteilung.versiegelteFlaeche;
+    const versiegelungsgrad = abflusswirksameFlaeche / grundstuecksflaeche;
 
     // 2. Determine if Überflutungsnachweis is required (§14.9.2)
     const nachweisErforderlich = abflusswirksameFlaeche > 800;
@@ -128,33 +383,102 @@ export function performDIN1986Assessment(input: DIN1986Input): DIN1986Result {
     //    T=30a for <70% impervious, T=100a for ≥70%
     const bemessungsregenJahre: 30 | 100 = versiegelungsgrad >= 0.7 ? 100 : 30;
 
-    // 4. Get Berlin rainfall intensity
-    const regenspende = BERLIN_KOSTRA[bemessungsregenJahre];
-
-    // 5. Calculate weighted runoff coefficient
-    const perviousArea = input.grundstuecksflaeche - input.versiegelteFlaeche;
-    const abflussbeiwert = (
-        (input.versiegelteFlaeche * RUNOFF_COEFFICIENTS.impervious) +
-        (perviousArea * RUNOFF_COEFFICIENTS.pervious)
-    ) / input.grundstuecksflaeche;
+    // 4. Get site rainfall table from the KOSTRA-DWD cell
+    const niederschlag = input.niederschlag ?? lookupKostraRainfall(input.latitude, input.longitude);
 
-    // 6. Peak discharge — Rational Method
-    const spitzenabflussRational = computePeakRunoff(regenspende, input.grundstuecksflaeche, abflussbeiwert);
+    // 5. Area-weighted runoff coefficients (Tabelle 9): C_s for peaks, C_m for volumes
+    const spitzenabflussbeiwert = flaechenaufteilung.psiS;
+    const mittlererAbflussbeiwert = flaechenaufteilung.psiM;
 
-    // 7. Peak discharge — PINN / Kinematic Wave
-    const slopeDecimal = input.gelaendeneigung / 100;
-    const kinematischeWelle = computeKinematicWaveSolution({
+    // 6. Scan durations — Rational Method and Kinematic Wave per D
+    const kinematicParams = {
         length: input.fliesslaenge,
-        rainfall: regenspende,
-        slope: Math.max(slopeDecimal, 0.001), // Minimum slope
+        slope: gefaelle(input),
         manningN: input.manningN,
-        width: Math.sqrt(input.grundstuecksflaeche), // Approximate width
+        width: einzugsbreite(grundstuecksflaeche),
+    };
+
+    const scan = DAUERSTUFEN_MIN.map(dauer => {
+        const regenspendeD = getRainIntensity(niederschlag, dauer, bemessungsregenJahre);
+        const welle = computeKinematicWaveSolution({ ...kinematicParams, rainfall: regenspendeD, duration: dauer });
+        // Only the fraction D/t_e of the catchment contributes while D < t_e
+        const beitragsanteil = Math.min(1, dauer / welle.timeToEquilibrium);
+        const spitzenabflussRationalD = computePeakRunoff(regenspendeD, grundstuecksflaeche, spitzenabflussbeiwert) * beitragsanteil;
+        return {
+            stufe: {
+                dauer,
+                regenspende: regenspendeD,
+                spitzenabflussRational: spitzenabflussRationalD,
+                spitzenabflussKinematisch: welle.peakDischarge,
+                rueckhaltevolumen: computeUeberflutungsvolumen(
+                    getRainIntensity(niederschlag, dauer, RUECKHALTUNG_JAHRE),
+                    dauer, grundstuecksflaeche, input.drosselabfluss, mittlererAbflussbeiwert,
+                ),
+            },
+            welle,
+        };
     });
-    const spitzenabflussPINN = kinematischeWelle.peakDischarge;
+    const dauerstufen = scan.map(s => s.stufe);
+
+    // 7. Governing durations — maximum peak per method
+    const massgebend = maxBy(dauerstufen, s => s.spitzenabflussRational);
+    const massgebendeDauer = massgebend.dauer;
+    const regenspende = massgebend.regenspende;
+    const spitzenabflussRational = massgebend.spitzenabflussRational;
 
-    // 8. Required retention volume (WQv-based)
-    const wasserqualitaetsvolumen = computeWQv(25, input.grundstuecksflaeche, abflussbeiwert);
-    const rueckhaltevolumen = wasserqualitaetsvolumen / 1000; // Convert L to m³
+    const massgebendWelle = maxBy(scan, s => s.welle.peakDischarge);
+    const kinematischeWelle = massgebendWelle.welle;
+    const spitzenabflussPINN = kinematischeWelle.peakDischarge;
+    const ganglinie = computeKinematicWaveHydrograph({
+        ...kinematicParams,
+        rainfall: massgebendWelle.stufe.regenspende,
+        duration: massgebendWelle.stufe.dauer,
+    });
+    const pinnEingabe = pinnEingabeFuer(input, massgebendWelle.stufe, kinematicParams.width);
+    const pinnGueltigkeit = checkTrainingEnvelope(pinnEingabe);
+    // Uncertainty only from a trained model with a validated manifest
+    const pinnModell = getModelManifest();
+    const spitzenabflussPINNIntervall = pinnModell && !pinnGueltigkeit.outOfDistribution
+        ? estimatePINNInterval(pinnEingabe)
+        : null;
+
+    // 7b. Model rain — numerical kinematic wave, maximum peak over D
+    const modellregen = input.modellregen;
+    const modellregenAbfluss = modellregen
+        ? maxBy(
+            DESIGN_STORM_DURATIONS.map(dauer => computeModellregenAbfluss(
+                kinematicParams, niederschlag, modellregen, dauer, bemessungsregenJahre,
+            )),
+            abfluss => abfluss.spitzenabfluss,
+        )
+        : null;
+
+    // 8. Required retention volume — DIN 1986-100 Gl. 20, maximum over D
+    const massgebendRueckhaltung = maxBy(dauerstufen, s => s.rueckhaltevolumen);
+    const rueckhaltevolumen = Math.max(0, massgebendRueckhaltung.rueckhaltevolumen);
+    const massgebendeDauerRueckhaltung = massgebendRueckhaltung.dauer;
+    const wasserqualitaetsvolumen = computeWQv(25, grundstuecksflaeche, mittlererAbflussbeiwert);
+
+    // 8b. Infiltration check — DWA-A 138 from soil permeability
+    const versickerung = pruefeVersickerung(
+        input.bodenart, niederschlag, grundstuecksflaeche * mittlererAbflussbeiwert,
+    );
+    const versickerungsanlagen = (input.versickerungsanlagen ?? []).map(anlage => ({
+        ...anlage,
+        bemessung: versickerung.zulaessig
+            ? sizeInfiltrationSystem({
+                type: anlage.typ,
+                connectedArea: anlage.angeschlosseneFlaeche,
+                kf: versickerung.kfBemessung,
+                rainfall: niederschlag,
+            })
+            : null,
+    }));
+
+    // 8c. Retention basin — DWA-A 117 for the permitted throttle rate
+    const regenrueckhalteraum = input.drosselabflussspende
+        ? sizeRetentionBasin(flaechenaufteilung, niederschlag, { throttleRate: input.drosselabflussspende })
+        : null;
 
     // 9. Compliance determination
     const nachweisStatus = determineComplianceStatus(
@@ -162,10 +486,11 @@ export function performDIN1986Assessment(input: DIN1986Input): DIN1986Result {
         spitzenabflussRational,
         spitzenabflussPINN,
         rueckhaltevolumen,
+        input.verfuegbaresRueckhaltevolumen,
     );
 
     // 10. Generate recommendations
-    const empfehlungen = generateRecommendations(input, versiegelungsgrad, nachweisStatus);
+    const empfehlungen = generateRecommendations(grundstuecksflaeche, versiegelungsgrad, nachweisStatus, versickerung);
 
     return {
         nachweisErforderlich,
@@ -173,41 +498,271 @@ export function performDIN1986Assessment(input: DIN1986Input): DIN1986Result {
         abflusswirksameFlaeche,
         versiegelungsgrad,
         bemessungsregenJahre,
+        massgebendeDauer,
         regenspende,
-        abflussbeiwert,
+        dauerstufen,
+        niederschlag,
+        spitzenabflussbeiwert,
+        mittlererAbflussbeiwert,
+        flaechenaufteilung,
         spitzenabflussRational,
         spitzenabflussPINN,
+        spitzenabflussPINNIntervall,
+        abflussMethode: 'ANALYTISCH',
+        pinnVergleich: null,
+        standortmodell: null,
         rueckhaltevolumen,
+        massgebendeDauerRueckhaltung,
+        drosselabfluss: input.drosselabfluss,
+        verfuegbaresRueckhaltevolumen: input.verfuegbaresRueckhaltevolumen,
         wasserqualitaetsvolumen,
+        versickerung,
+        versickerungsanlagen,
+        regenrueckhalteraum,
         kinematischeWelle,
+        ganglinie,
+        modellregenAbfluss,
+        pinnModell,
+        pinnGueltigkeit,
         nachweisStatus,
         zeitstempel: new Date().toISOString(),
         empfehlungen,
     };
 }
 
+/**
+ * Perform the DIN 1986-100 assessment with the trained PINN
+ *
+ * Runs the analytical assessment, then asks the network for the governing
+ * kinematic wave peak. The PINN is only consulted when a trained model with a
+ * validated manifest is loaded; without one the analytical result is returned
+ * unchanged. The PINN value is reported if the input lies inside the training
+ * envelope and the hybrid policy accepts it against the analytical peak;
+ * otherwise the analytical value is kept and the comparison is recorded.
+ */
+export async function performDIN1986AssessmentAsync(
+    input: DIN1986Input,
+    options: AssessmentOptions = {},
+): Promise<DIN1986Result> {
+    const { onProgress, signal } = options;
+
+    // Load first so the envelope check uses the manifest of the loaded model
+    onProgress?.('PINN-Modell laden', 0);
+    const standortmodell = await activateSiteModel(standortSchluessel(input));
+    const modellGeladen = await loadModel().catch(() => false);
+    signal?.throwIfAborted();
+
+    onProgress?.('Analytische Berechnung', 0.4);
+    const analytisch: DIN1986Result = { ...performDIN1986Assessment(input), standortmodell };
+    signal?.throwIfAborted();
+    if (!modellGeladen || !getModelManifest() || analytisch.pinnGueltigkeit.outOfDistribution) return analytisch;
+
+    const stufe = analytisch.dauerstufen.find(s => s.dauer === analytisch.kinematischeWelle.rainDuration);
+    if (!stufe) return analytisch;
+
+    onProgress?.('PINN-Inferenz', 0.7);
+    const breite = einzugsbreite(analytisch.flaechenaufteilung.gesamtflaeche);
+    const pinn = await runPINNInference(pinnEingabeFuer(input, stufe, breite));
+    signal?.throwIfAborted();
+    if (!pinn.isPINNPrediction) return analytisch;
+
+    const spitzenabflussPINN = pinn.discharge;
+    const spitzenabflussAnalytisch = analytisch.kinematischeWelle.peakDischarge;
+    const abweichung = spitzenabflussPINN / spitzenabflussAnalytisch - 1;
+    const pinnVergleich: PINNMethodenvergleich = {
+        spitzenabflussPINN,
+        spitzenabflussAnalytisch,
+        abweichung,
+        uebereinstimmung: acceptsPINN(spitzenabflussPINN, spitzenabflussAnalytisch, 'analytical'),
+    };
+
+    // A rejected PINN value must not lend its interval to the analytical peak
+    if (!pinnVergleich.uebereinstimmung) {
+        return { ...analytisch, spitzenabflussPINNIntervall: null, pinnVergleich };
+    }
+    const spitzenabflussPINNIntervall = pinn.uncertainty ?? analytisch.spitzenabflussPINNIntervall;
+
+    const nachweisStatus = determineComplianceStatus(
+        analytisch.nachweisErforderlich,
+        analytisch.spitzenabflussRational,
+        spitzenabflussPINN,
+        analytisch.rueckhaltevolumen,
+        analytisch.verfuegbaresRueckhaltevolumen,
+    );
+
+    return {
+        ...analytisch,
+        spitzenabflussPINN,
+        spitzenabflussPINNIntervall,
+        abflussMethode: 'PINN',
+        pinnVergleich,
+        nachweisStatus,
+        empfehlungen: generateRecommendations(
+            analytisch.flaechenaufteilung.gesamtflaeche,
+            analytisch.versiegelungsgrad,
+            nachweisStatus,
+            analytisch.versickerung,
+        ),
+    };
+}
+
+/** Key under which the site model of a project is stored */
+export function standortSchluessel(input: Pick<DIN1986Input, 'projectName'>): string {
+    return input.projectName.trim() || 'Unbenanntes Projekt';
+}
+
+/** Approximate catchment width for the kinematic wave plane in m */
+export function einzugsbreite(grundstuecksflaeche: number): number {
+    return Math.sqrt(grundstuecksflaeche);
+}
+
+/** Surface slope in m/m, at least MIN_GEFAELLE so flat sites still drain */
+export function gefaelle(input: Pick<DIN1986Input, 'gelaendeneigung'>): number {
+    return Math.max(input.gelaendeneigung / 100, MIN_GEFAELLE);
+}
+
+/** PINN input for the outlet (x = L) of a plane of the given width at the end of the rain duration D */
+function pinnEingabeFuer(
+    input: DIN1986Input,
+    stufe: Pick<DauerstufenErgebnis, 'dauer' | 'regenspende'>,
+    breite: number,
+): PINNInput {
+    return {
+        x: input.fliesslaenge,
+        t: stufe.dauer,
+        rainfall: stufe.regenspende,
+        slope: gefaelle(input),
+        manningN: input.manningN,
+        width: breite,
+    };
+}
+
+/**
+ * Outlet response to a model rain on the kinematic wave plane
+ * The analytical solution only covers constant intensity, so the hyetograph
+ * is routed with the numerical solver.
+ */
+export function computeModellregenAbfluss(
+    flaeche: Omit<KinematicWaveParams, 'rainfall' | 'duration'>,
+    niederschlag: KostraRainfallTable,
+    typ: HyetographType,
+    dauer: number,
+    wiederkehrzeit: number,
+): ModellregenAbfluss {
+    const regen = buildDesignStorm(niederschlag, typ, dauer, wiederkehrzeit);
+    const welle = solveKinematicWave({ ...flaeche, hyetograph: regen });
+    return {
+        typ,
+        dauer: regen.duration,
+        wiederkehrzeit,
+        regenhoehe: regen.totalDepth,
+        spitzenabfluss: welle.peakDischarge,
+        zeitBisSpitze: welle.timeToPeak,
+        ganglinie: {
+            time: welle.time,
+            discharge: welle.outletDischarge,
+            depth: welle.depth.map(profil => profil[profil.length - 1]),
+            rainDuration: regen.duration,
+        },
+    };
+}
+
+function maxBy<T>(items: T[], key: (item: T) => number): T {
+    return items.reduce((best, item) => (key(item) > key(best) ? item : best));
+}
+
+/**
+ * Überflutungsvolumen per DIN 1986-100 Gl. 20
+ * V_Rück = r(D,30)·A_ges·C_m/10000·D·60/1000 − Q_voll·D·60/1000
+ *
+ * @param regenspende_mm_hr - Rainfall intensity r(D,30) in mm/hr
+ * @param dauer_min - Rain duration D in min
+ * @param flaeche_m2 - Total site area A_ges in m²
+ * @param drosselabfluss_Ls - Pipe-full capacity / throttle outflow Q_voll in L/s
+ * @param abflussbeiwert - Mean runoff coefficient C_m (1 = full A_ges)
+ * @returns Volume in m³ (negative if the drainage system carries the full rain)
+ */
+export function computeUeberflutungsvolumen(
+    regenspende_mm_hr: number,
+    dauer_min: number,
+    flaeche_m2: number,
+    drosselabfluss_Ls: number,
+    abflussbeiwert: number = 1,
+): number {
+    const regenspende_Lsha = toRegenspende(regenspende_mm_hr);
+    const zufluss = regenspende_Lsha * flaeche_m2 * abflussbeiwert / 10000 * dauer_min * 60 / 1000;
+    const abfluss = drosselabfluss_Ls * dauer_min * 60 / 1000;
+    return zufluss - abfluss;
+}
+
+/**
+ * DWA-A 138 infiltration check
+ * Permits infiltration if the design kf lies within 1·10⁻⁶…1·10⁻³ m/s and sizes a swale
+ * (or swale-trench for low kf) for the connected area A_u.
+ */
+function pruefeVersickerung(
+    bodenart: DIN1986Input['bodenart'],
+    niederschlag: KostraRainfallTable,
+    angeschlosseneFlaeche: number,
+): VersickerungsNachweis {
+    const { min: kfMin, max: kfMax } = SOIL_KF_RANGES[bodenart];
+    const kfBemessung = Math.sqrt(kfMin * kfMax) * KF_KORREKTURFAKTOR;
+
+    const nichtZulaessig = (begruendung: string): VersickerungsNachweis => ({
+        kfMin, kfMax, kfBemessung, zulaessig: false, begruendung,
+        anlagentyp: null, erforderlichesVolumen: 0, versickerungsflaeche: 0, massgebendeDauer: 0, entleerungszeit: 0,
+    });
+
+    if (kfBemessung > DWA_A138_KF.max) {
+        return nichtZulaessig(`kf = ${kfBemessung.toExponential(1)} m/s > 1·10⁻³ m/s — Sickerstrecke zu durchlässig, unzureichende Reinigungswirkung (DWA-A 138).`);
+    }
+    if (kfBemessung < DWA_A138_KF.min) {
+        return nichtZulaessig(`kf = ${kfBemessung.toExponential(1)} m/s < 1·10⁻⁶ m/s — Boden für Versickerung nicht ausreichend durchlässig (DWA-A 138).`);
+    }
+
+    const typ: InfiltrationSystemType = kfBemessung >= 1e-5 ? 'mulde' : 'mulden_rigole';
+    const bemessung = sizeInfiltrationSystem({
+        type: typ,
+        connectedArea: angeschlosseneFlaeche,
+        kf: kfBemessung,
+        rainfall: niederschlag,
+    });
+
+    return {
+        kfMin,
+        kfMax,
+        kfBemessung,
+        zulaessig: true,
+        begruendung: `kf = ${kfBemessung.toExponential(1)} m/s im Bereich 1·10⁻⁶…1·10⁻³ m/s — Versickerung nach DWA-A 138 zulässig.`,
+        anlagentyp: typ === 'mulde' ? 'Mulde' : 'Mulden-Rigole',
+        erforderlichesVolumen: bemessung.volume,
+        versickerungsflaeche: bemessung.requiredArea,
+        massgebendeDauer: bemessung.governingDuration,
+        entleerungszeit: bemessung.emptyingTime,
+    };
+}
+
 function determineComplianceStatus(
     required: boolean,
     qRational: number,
     qPINN: number,
     retentionM3: number,
+    availableM3: number,
 ): DIN1986Result['nachweisStatus'] {
     if (!required) return 'BESTANDEN';
 
-    // Check convergence between methods
-    const ratio = qPINN / qRational;
-    if (ratio < 0.3 || ratio > 3.0) return 'PRUEFUNG_ERFORDERLICH';
+    // Check convergence between methods (hybrid policy band against the Rational Method)
+    if (!acceptsPINN(qPINN, qRational, 'rational')) return 'PRUEFUNG_ERFORDERLICH';
 
-    // Simple threshold: if retention volume is manageable
-    if (retentionM3 < 50) return 'BESTANDEN';
-    if (retentionM3 < 200) return 'PRUEFUNG_ERFORDERLICH';
-    return 'NICHT_BESTANDEN';
+    // V_Rück must be retained on site without damage
+    return retentionM3 <= availableM3 ? 'BESTANDEN' : 'NICHT_BESTANDEN';
 }
 
 function generateRecommendations(
-    input: DIN1986Input,
+    grundstuecksflaeche: number,
     versiegelungsgrad: number,
     status: DIN1986Result['nachweisStatus'],
+    versickerung: VersickerungsNachweis,
 ): string[] {
     const recs: string[] = [];
 
@@ -219,7 +774,7 @@ function generateRecommendations(
         recs.push('T=100a Bemessungsregen angesetzt (Versiegelungsgrad ≥70%). Intensive Dachbegrünung kann den Abflussbeiwert senken.');
     }
 
-    if (input.grundstuecksflaeche > 2000) {
+    if (grundstuecksflaeche > 2000) {
         recs.push('Bei Grundstücken >2.000 m² ist eine detaillierte Überflutungssimulation (2D) empfohlen.');
     }
 
@@ -228,8 +783,14 @@ function generateRecommendations(
     }
 
     if (status === 'NICHT_BESTANDEN') {
-        recs.push('Erforderliches Rückhaltevolumen überschreitet zulässige Grenzen. Entwässerungskonzept überarbeiten.');
-        recs.push('Prüfung eines Rigolen- oder Muldenversickerungssystems gemäß DWA-A 138 empfohlen.');
+        recs.push('Erforderliches Rückhaltevolumen V_Rück überschreitet das schadlos überflutbare Volumen auf dem Grundstück. Entwässerungskonzept überarbeiten.');
+        if (versickerung.zulaessig) {
+            recs.push(`Prüfung eines Rigolen- oder Muldenversickerungssystems gemäß DWA-A 138 empfohlen (${versickerung.anlagentyp}, ca. ${versickerung.erforderlichesVolumen.toFixed(0)} m³).`);
+        }
+    }
+
+    if (!versickerung.zulaessig) {
+        recs.push(`Versickerung nicht zulässig: ${versickerung.begruendung} Ableitung über gedrosselten Anschluss oder Rückhaltung vorsehen.`);
     }
 
     recs.push('Hinweis: Dieser Entwurf ersetzt nicht die Prüfung und Freigabe durch einen Bauvorlageberechtigten Ingenieur.');
@@ -239,7 +800,43 @@ function generateRecommendations(
 
 // ============ Exported Constants ============
 
-export { DIN_RUNOFF_COEFFICIENTS, BERLIN_KOSTRA, SOIL_SCS_MAP };
+export { DIN_RUNOFF_COEFFICIENTS, SOIL_SCS_MAP, SOIL_KF_RANGES, ANLAGENTYP_LABELS, ABFLUSSMETHODE_LABELS };
+
+/**
+ * Interval bounds of a PINN prediction, e.g. "12.3–15.8 L/s"
+ */
+export function formatPINNIntervall(intervall: PredictionInterval): string {
+    return `${intervall.lower.toFixed(1)}–${intervall.upper.toFixed(1)} L/s`;
+}
+
+/**
+ * Relative deviation with sign, e.g. "+12.3 %"
+ */
+export function formatAbweichung(abweichung: number): string {
+    return `${abweichung >= 0 ? '+' : ''}${(abweichung * 100).toFixed(1)} %`;
+}
+
+/**
+ * Fine-tuning statistics of a site model, scored on the held-out measurements,
+ * e.g. "38 Messwerte, Prüfung an 10 zurückgehaltenen: RMSE 12.3 → 3.1 L/s, MAPE 45.0 → 9.0 %
+ * (4 außerhalb des Trainingsbereichs verworfen)"
+ */
+export function formatStandortmodell(info: SiteModelInfo): string {
+    const mape = Number.isFinite(info.before.mape) && Number.isFinite(info.after.mape)
+        ? `, MAPE ${info.before.mape.toFixed(1)} → ${info.after.mape.toFixed(1)} %`
+        : '';
+    const verworfen = info.dropped > 0 ? ` (${info.dropped} außerhalb des Trainingsbereichs verworfen)` : '';
+    return `${info.observations} Messwerte, Prüfung an ${info.heldOut} zurückgehaltenen: ` +
+        `RMSE ${info.before.rmse.toFixed(1)} → ${info.after.rmse.toFixed(1)} L/s${mape}${verworfen}`;
+}
+
+/**
+ * Model rain response, e.g. "Euler Typ II, D=60 min, hN = 32.1 mm: Q_max 48.2 L/s nach 23 min"
+ */
+export function formatModellregenAbfluss(abfluss: ModellregenAbfluss): string {
+    return `${HYETOGRAPH_LABELS[abfluss.typ]}, D=${abfluss.dauer} min, hN = ${abfluss.regenhoehe.toFixed(1)} mm: ` +
+        `Q_max ${abfluss.spitzenabfluss.toFixed(1)} L/s nach ${abfluss.zeitBisSpitze.toFixed(0)} min`;
+}
 
 /**
  * Generate formatted compliance report text
@@ -269,20 +866,53 @@ Erstellt mit: FloodPilot v1.0
    Grundstücksfläche:        ${result.abflusswirksameFlaeche.toFixed(0)} m² (abflusswirksam)
    Versiegelungsgrad:        ${(result.versiegelungsgrad * 100).toFixed(1)}%
    Bemessungsregen:          T=${result.bemessungsregenJahre}a
+   Niederschlagsdaten:       ${describeKostraSource(result.niederschlag)}${result.pinnModell ? `
+   PINN-Modell:              ${describeModelManifest(result.pinnModell)}` : ''}
 
 2. BERECHNUNGSERGEBNISSE
-   Abflussbeiwert Ψ:         ${result.abflussbeiwert.toFixed(3)}
-   Regenspende (r₁₅):       ${result.regenspende.toFixed(0)} mm/hr
+   Spitzenabflussbeiwert C_s: ${result.spitzenabflussbeiwert.toFixed(3)} (Spitzenabfluss)
+   Mittl. Abflussbeiwert C_m: ${result.mittlererAbflussbeiwert.toFixed(3)} (Rückhaltevolumen)
+   Flächenaufteilung (Tabelle 9):
+${result.flaechenaufteilung.teilflaechen.map(f => `     ${(f.bezeichnung || DIN_RUNOFF_COEFFICIENTS[f.typ].label).padEnd(24)} ${f.flaeche.toFixed(0).padStart(7)} m²  Ψs ${f.psiS.toFixed(2)}  Ψm ${f.psiM.toFixed(2)}`).join('\n')}
+     ${'Gesamt (gewichtet)'.padEnd(24)} ${result.flaechenaufteilung.gesamtflaeche.toFixed(0).padStart(7)} m²  Ψs ${result.flaechenaufteilung.psiS.toFixed(2)}  Ψm ${result.flaechenaufteilung.psiM.toFixed(2)}
+   Maßgebende Regendauer:    D=${result.massgebendeDauer} min
+   Regenspende r(D,T):       ${result.regenspende.toFixed(0)} mm/hr
    
    Spitzenabfluss (Rational): ${result.spitzenabflussRational.toFixed(2)} L/s
-   Spitzenabfluss (PINN/KW):  ${result.spitzenabflussPINN.toFixed(2)} L/s
+   Spitzenabfluss (PINN/KW):  ${result.spitzenabflussPINN.toFixed(2)} L/s (${ABFLUSSMETHODE_LABELS[result.abflussMethode]})${result.pinnVergleich ? `
+   PINN / analytisch:         ${result.pinnVergleich.spitzenabflussPINN.toFixed(2)} / ${result.pinnVergleich.spitzenabflussAnalytisch.toFixed(2)} L/s (Abweichung ${formatAbweichung(result.pinnVergleich.abweichung)}, ${result.pinnVergleich.uebereinstimmung ? 'übereinstimmend' : 'abweichend — analytischer Wert angesetzt'})` : ''}${result.spitzenabflussPINNIntervall ? `
+   PINN ${(result.spitzenabflussPINNIntervall.level * 100).toFixed(0)}%-Intervall:        ${formatPINNIntervall(result.spitzenabflussPINNIntervall)} (MC-Dropout, σ = ${result.spitzenabflussPINNIntervall.std.toFixed(2)} L/s)` : ''}${result.standortmodell ? `
+   PINN-Standortmodell:       ${formatStandortmodell(result.standortmodell)}` : ''}
    
-   Rückhaltevolumen:          ${result.rueckhaltevolumen.toFixed(1)} m³
+   Rückhaltevolumen V_Rück:   ${result.rueckhaltevolumen.toFixed(1)} m³ (D=${result.massgebendeDauerRueckhaltung} min, Gl. 20, r(D,30), C_m)
+   Drosselabfluss Q_voll:     ${result.drosselabfluss.toFixed(1)} L/s
+   Verfügbares Volumen:       ${result.verfuegbaresRueckhaltevolumen.toFixed(1)} m³
    
    Kinetische Welle:
      Spitzenabfluss:          ${result.kinematischeWelle.peakDischarge.toFixed(2)} L/s
+     Regendauer:              ${result.kinematischeWelle.rainDuration} min
      Anstiegszeit:            ${result.kinematischeWelle.timeToPeak.toFixed(1)} min
-     Gleichgewichtstiefe:     ${result.kinematischeWelle.equilibriumDepth.toFixed(1)} mm
+     Gleichgewichtstiefe:     ${result.kinematischeWelle.equilibriumDepth.toFixed(1)} mm${result.modellregenAbfluss ? `
+     Modellregen (numerisch): ${formatModellregenAbfluss(result.modellregenAbfluss)}` : ''}${result.pinnGueltigkeit.outOfDistribution ? `
+     PINN nicht verwendet:    ${describeEnvelopeCheck(result.pinnGueltigkeit)} (Abstand ${result.pinnGueltigkeit.distance.toFixed(2)})` : ''}
+
+   Versickerung (DWA-A 138):
+     kf-Bereich:              ${result.versickerung.kfMin.toExponential(0)} … ${result.versickerung.kfMax.toExponential(0)} m/s
+     kf (Bemessung):          ${result.versickerung.kfBemessung.toExponential(1)} m/s
+     Entscheidung:            ${result.versickerung.zulaessig ? 'zulässig' : 'nicht zulässig'}${result.versickerung.anlagentyp ? `
+     Anlage:                  ${result.versickerung.anlagentyp}, A_s = ${result.versickerung.versickerungsflaeche.toFixed(0)} m²
+     Volumen (erf.):          ${result.versickerung.erforderlichesVolumen.toFixed(1)} m³ (D=${result.versickerung.massgebendeDauer} min)
+     Entleerungszeit:         ${result.versickerung.entleerungszeit.toFixed(1)} h` : ''}${result.versickerungsanlagen.map(a => `
+     ${(a.bezeichnung || ANLAGENTYP_LABELS[a.typ]).padEnd(24)} A_u ${a.angeschlosseneFlaeche.toFixed(0)} m²: ${a.bemessung
+        ? `A = ${a.bemessung.requiredArea.toFixed(0)} m², ${a.bemessung.length > 0 ? `L = ${a.bemessung.length.toFixed(1)} m, ` : ''}V = ${a.bemessung.volume.toFixed(1)} m³, t_E = ${a.bemessung.emptyingTime.toFixed(1)} h`
+        : 'nicht bemessen (Versickerung nicht zulässig)'}`).join('')}${result.regenrueckhalteraum ? `
+
+   Regenrückhalteraum (DWA-A 117):
+     Drosselabflussspende:    ${result.regenrueckhalteraum.throttleRate.toFixed(1)} L/(s·ha) → Q_dr = ${result.regenrueckhalteraum.throttleOutflow.toFixed(1)} L/s
+     q_dr,R,u:                ${result.regenrueckhalteraum.throttleRateImpervious.toFixed(1)} L/(s·ha) (A_u = ${result.regenrueckhalteraum.imperviousArea.toFixed(0)} m²)
+     Spez. Volumen V_s,u:     ${result.regenrueckhalteraum.specificVolume.toFixed(0)} m³/ha (T=${result.regenrueckhalteraum.returnPeriod}a, f_Z = ${result.regenrueckhalteraum.safetyFactor})
+     Erf. Volumen:            ${result.regenrueckhalteraum.requiredVolume.toFixed(1)} m³ (D=${result.regenrueckhalteraum.governingDuration} min)
+     Entleerungszeit:         ${result.regenrueckhalteraum.emptyingTime.toFixed(1)} h` : ''}
 
 3. ERGEBNIS
    ${statusLabel}
@@ -6,7 +6,18 @@
  */
 
 import jsPDF from 'jspdf';
-import { type DIN1986Result } from './din1986Engine';
+import {
+    ABFLUSSMETHODE_LABELS,
+    ANLAGENTYP_LABELS,
+    DIN_RUNOFF_COEFFICIENTS,
+    formatAbweichung,
+    formatModellregenAbfluss,
+    formatPINNIntervall,
+    type DIN1986Result,
+} from './din1986Engine';
+import { describeKostraSource } from './kostraProvider';
+import { describeEnvelopeCheck, describeModelManifest } from '../ml/pinnManifest';
+import { acceptsPINN, getHybridPolicy } from '../ml/hybridPolicy';
 
 export function generateDIN1986PDF(result: DIN1986Result, projectName: string): jsPDF {
     const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
@@ -54,11 +65,12 @@ export function generateDIN1986PDF(result: DIN1986Result, projectName: string):
     y += 2;
 
     const siteData = [
-        ['Grundstücksfläche (gesamt)', `${result.abflusswirksameFlaeche.toFixed(0)} m²`],
+        ['Grundstücksfläche (gesamt)', `${result.flaechenaufteilung.gesamtflaeche.toFixed(0)} m²`],
         ['Versiegelungsgrad', `${(result.versiegelungsgrad * 100).toFixed(1)} %`],
         ['Abflusswirksame Fläche', `${result.abflusswirksameFlaeche.toFixed(0)} m²`],
         ['Bemessungsregen', `T = ${result.bemessungsregenJahre} a`],
-        ['Regenspende (r₁₅)', `${result.regenspende.toFixed(0)} mm/hr`],
+        ['Maßgebende Regendauer', `D = ${result.massgebendeDauer} min`],
+        [`Regenspende r(${result.massgebendeDauer}, ${result.bemessungsregenJahre})`, `${result.regenspende.toFixed(0)} mm/hr`],
     ];
 
     y = drawDataTable(doc, siteData, y, margin, contentWidth);
@@ -70,7 +82,48 @@ export function generateDIN1986PDF(result: DIN1986Result, projectName: string):
     doc.setTextColor(100, 100, 100);
     const wrappedReason = doc.splitTextToSize(result.begruendung, contentWidth);
     doc.text(wrappedReason, margin, y);
-    y += wrappedReason.length * 4 + 6;
+    y += wrappedReason.length * 4 + 2;
+
+    const wrappedSource = doc.splitTextToSize(`Niederschlagsdaten: ${describeKostraSource(result.niederschlag)}`, contentWidth);
+    doc.text(wrappedSource, margin, y);
+    y += wrappedSource.length * 4 + 2;
+
+    if (result.pinnModell) {
+        const wrappedModel = doc.splitTextToSize(`PINN-Modell: ${describeModelManifest(result.pinnModell)}`, contentWidth);
+        doc.text(wrappedModel, margin, y);
+        y += wrappedModel.length * 4 + 2;
+    }
+
+    if (result.pinnGueltigkeit.outOfDistribution) {
+        const wrappedEnvelope = doc.splitTextToSize(
+            `PINN nicht verwendet (außerhalb des Trainingsbereichs, Abstand ${result.pinnGueltigkeit.distance.toFixed(2)}): ` +
+            `${describeEnvelopeCheck(result.pinnGueltigkeit)}. Es gilt die analytische kinematische Welle.`,
+            contentWidth,
+        );
+        doc.text(wrappedEnvelope, margin, y);
+        y += wrappedEnvelope.length * 4 + 2;
+    }
+    y += 4;
+
+    // Surface breakdown (Tabelle 9)
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(10, 22, 40);
+    doc.text('Flächenaufteilung (DIN 1986-100 Tabelle 9)', margin, y);
+    y += 5;
+
+    const surfaceData = [
+        ...result.flaechenaufteilung.teilflaechen.map(f => [
+            f.bezeichnung || DIN_RUNOFF_COEFFICIENTS[f.typ].label,
+            `${f.flaeche.toFixed(0)} m²   Ψs ${f.psiS.toFixed(2)}   Ψm ${f.psiM.toFixed(2)}`,
+        ]),
+        [
+            'Gesamt (flächengewichtet)',
+            `${result.flaechenaufteilung.gesamtflaeche.toFixed(0)} m²   Ψs ${result.flaechenaufteilung.psiS.toFixed(2)}   Ψm ${result.flaechenaufteilung.psiM.toFixed(2)}`,
+        ],
+    ];
+    y = drawDataTable(doc, surfaceData, y, margin, contentWidth);
+    y += 6;
 
     // ===== SECTION 2: BERECHNUNGSERGEBNISSE =====
     doc.setTextColor(30, 30, 30);
@@ -78,25 +131,102 @@ export function generateDIN1986PDF(result: DIN1986Result, projectName: string):
     y += 2;
 
     const calcData = [
-        ['Abflussbeiwert Ψ (gewichtet)', result.abflussbeiwert.toFixed(3)],
-        ['Spitzenabfluss Q (Rational)', `${result.spitzenabflussRational.toFixed(2)} L/s`],
-        ['Spitzenabfluss Q (Kinematische Welle)', `${result.spitzenabflussPINN.toFixed(2)} L/s`],
+        ['Spitzenabflussbeiwert C_s', result.spitzenabflussbeiwert.toFixed(3)],
+        ['Mittlerer Abflussbeiwert C_m', result.mittlererAbflussbeiwert.toFixed(3)],
+        ['Spitzenabfluss Q (Rational, C_s)', `${result.spitzenabflussRational.toFixed(2)} L/s`],
+        [`Spitzenabfluss Q (${ABFLUSSMETHODE_LABELS[result.abflussMethode]})`, `${result.spitzenabflussPINN.toFixed(2)} L/s`],
+        ...(result.pinnVergleich ? [[
+            'Abweichung PINN / analytisch',
+            `${formatAbweichung(result.pinnVergleich.abweichung)} (${result.pinnVergleich.uebereinstimmung ? 'übereinstimmend' : 'abweichend, analytischer Wert angesetzt'})`,
+        ]] : []),
+        ...(result.spitzenabflussPINNIntervall ? [[
+            `PINN ${(result.spitzenabflussPINNIntervall.level * 100).toFixed(0)}%-Intervall (MC-Dropout)`,
+            formatPINNIntervall(result.spitzenabflussPINNIntervall),
+        ]] : []),
+        ['Regendauer (Kinematische Welle)', `${result.kinematischeWelle.rainDuration} min`],
         ['Anstiegszeit', `${result.kinematischeWelle.timeToPeak.toFixed(1)} min`],
         ['Gleichgewichtstiefe', `${result.kinematischeWelle.equilibriumDepth.toFixed(1)} mm`],
-        ['Rückhaltevolumen (erf.)', `${result.rueckhaltevolumen.toFixed(1)} m³`],
+        ...(result.modellregenAbfluss ? [[
+            'Modellregen (numerische kinematische Welle)',
+            formatModellregenAbfluss(result.modellregenAbfluss),
+        ]] : []),
+        ['Drosselabfluss Q_voll', `${result.drosselabfluss.toFixed(1)} L/s`],
+        [`Rückhaltevolumen V_Rück (Gl. 20, r(D,30), C_m, D = ${result.massgebendeDauerRueckhaltung} min)`, `${result.rueckhaltevolumen.toFixed(1)} m³`],
+        ['Schadlos überflutbares Volumen', `${result.verfuegbaresRueckhaltevolumen.toFixed(1)} m³`],
     ];
 
     y = drawDataTable(doc, calcData, y, margin, contentWidth);
     y += 4;
 
-    // Method comparison note
+    // Method comparison note — same band as the compliance check
     const ratio = result.spitzenabflussPINN / result.spitzenabflussRational;
+    const band = getHybridPolicy().rational;
+    const uebereinstimmung = acceptsPINN(result.spitzenabflussPINN, result.spitzenabflussRational, 'rational');
     doc.setFontSize(8);
     doc.setFont('helvetica', 'italic');
     doc.setTextColor(100, 100, 100);
-    doc.text(`Verhältnis KW/Rational: ${ratio.toFixed(2)} — ${ratio > 0.5 && ratio < 2.0 ? 'gute Übereinstimmung' : 'Prüfung empfohlen'}`, margin, y);
+    doc.text(
+        `Verhältnis KW/Rational: ${ratio.toFixed(2)} (Band ${band.min}–${band.max}) — ${uebereinstimmung ? 'gute Übereinstimmung' : 'Prüfung empfohlen'}`,
+        margin, y,
+    );
     y += 8;
 
+    // Infiltration check (DWA-A 138)
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(10, 22, 40);
+    y = ensureSpace(doc, y, 30, margin);
+    doc.text('Versickerung (DWA-A 138)', margin, y);
+    y += 5;
+
+    const versickerung = result.versickerung;
+    const infiltrationData = [
+        ['kf-Bereich (DIN 18196)', `${versickerung.kfMin.toExponential(0)} … ${versickerung.kfMax.toExponential(0)} m/s`],
+        ['kf (Bemessung)', `${versickerung.kfBemessung.toExponential(1)} m/s`],
+        ['Entscheidung', versickerung.zulaessig ? 'zulässig' : 'nicht zulässig'],
+        ...(versickerung.zulaessig ? [
+            ['Anlage', `${versickerung.anlagentyp}, A_s = ${versickerung.versickerungsflaeche.toFixed(0)} m²`],
+            [`Erforderliches Volumen (D = ${versickerung.massgebendeDauer} min)`, `${versickerung.erforderlichesVolumen.toFixed(1)} m³`],
+            ['Entleerungszeit', `${versickerung.entleerungszeit.toFixed(1)} h`],
+        ] : []),
+        ...result.versickerungsanlagen.map(anlage => [
+            `${anlage.bezeichnung || ANLAGENTYP_LABELS[anlage.typ]} (A_u = ${anlage.angeschlosseneFlaeche.toFixed(0)} m²)`,
+            anlage.bemessung
+                ? `A = ${anlage.bemessung.requiredArea.toFixed(0)} m², ${anlage.bemessung.length > 0 ? `L = ${anlage.bemessung.length.toFixed(1)} m, ` : ''}V = ${anlage.bemessung.volume.toFixed(1)} m³, t_E = ${anlage.bemessung.emptyingTime.toFixed(1)} h`
+                : 'nicht bemessen',
+        ]),
+    ];
+    y = drawDataTable(doc, infiltrationData, y, margin, contentWidth);
+    y += 2;
+
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'italic');
+    doc.setTextColor(100, 100, 100);
+    const wrappedInfiltration = doc.splitTextToSize(versickerung.begruendung, contentWidth);
+    doc.text(wrappedInfiltration, margin, y);
+    y += wrappedInfiltration.length * 4 + 6;
+
+    // Retention basin (DWA-A 117)
+    const rrr = result.regenrueckhalteraum;
+    if (rrr) {
+        doc.setFontSize(10);
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(10, 22, 40);
+        y = ensureSpace(doc, y, 30, margin);
+        doc.text('Regenrückhalteraum (DWA-A 117)', margin, y);
+        y += 5;
+
+        const retentionData = [
+            ['Drosselabflussspende q_dr', `${rrr.throttleRate.toFixed(1)} L/(s·ha), Q_dr = ${rrr.throttleOutflow.toFixed(1)} L/s`],
+            ['q_dr,R,u (bez. auf A_u)', `${rrr.throttleRateImpervious.toFixed(1)} L/(s·ha), A_u = ${rrr.imperviousArea.toFixed(0)} m²`],
+            [`Spez. Volumen V_s,u (T = ${rrr.returnPeriod}a, f_Z = ${rrr.safetyFactor})`, `${rrr.specificVolume.toFixed(0)} m³/ha`],
+            [`Erforderliches Volumen (D = ${rrr.governingDuration} min)`, `${rrr.requiredVolume.toFixed(1)} m³`],
+            ['Entleerungszeit', `${rrr.emptyingTime.toFixed(1)} h`],
+        ];
+        y = drawDataTable(doc, retentionData, y, margin, contentWidth);
+        y += 6;
+    }
+
     // ===== SECTION 3: ERGEBNIS =====
     doc.setTextColor(30, 30, 30);
     y = drawSectionHeader(doc, '3. Ergebnis', y, margin, contentWidth);
@@ -133,12 +263,13 @@ export function generateDIN1986PDF(result: DIN1986Result, projectName: string):
     doc.setFont('helvetica', 'normal');
     for (const rec of result.empfehlungen) {
         const lines = doc.splitTextToSize(`• ${rec}`, contentWidth - 5);
+        y = ensureSpace(doc, y, lines.length * 4, margin);
         doc.text(lines, margin + 3, y);
         y += lines.length * 4 + 2;
     }
 
     // ===== FOOTER =====
-    y = Math.max(y + 10, 240);
+    y = ensureSpace(doc, Math.max(y + 10, 240), 30, margin);
     doc.setDrawColor(200, 200, 200);
     doc.line(margin, y, pageWidth - margin, y);
     y += 6;
@@ -168,9 +299,20 @@ export function generateDIN1986PDF(result: DIN1986Result, projectName: string):
 
 // ===== Helper Functions =====
 
+/**
+ * Start a new page if the next block of the given height would overflow
+ */
+function ensureSpace(doc: jsPDF, y: number, height: number, margin: number): number {
+    const pageHeight = doc.internal.pageSize.getHeight();
+    if (y + height <= pageHeight - margin) return y;
+    doc.addPage();
+    return margin;
+}
+
 function drawSectionHeader(
     doc: jsPDF, title: string, y: number, margin: number, width: number,
 ): number {
+    y = ensureSpace(doc, y, 20, margin);
     doc.setFillColor(240, 244, 248);
     doc.rect(margin, y, width, 8, 'F');
     doc.setFontSize(11);
@@ -187,7 +329,8 @@ function drawDataTable(
     doc.setFontSize(9);
 
     for (let i = 0; i < data.length; i++) {
-        const rowY = y + i * 6;
+        y = ensureSpace(doc, y, 6, margin);
+        const rowY = y;
         if (i % 2 === 0) {
             doc.setFillColor(248, 250, 252);
             doc.rect(margin, rowY - 3.5, width, 6, 'F');
@@ -200,7 +343,8 @@ function drawDataTable(
         doc.setFont('helvetica', 'bold');
         doc.setTextColor(10, 22, 40);
         doc.text(data[i][1], margin + colSplit, rowY);
+        y += 6;
     }
 
-    return y + data.length * 6;
+    return y;
 }
@@ -0,0 +1,120 @@
+/**
+ * DWA-A 117 Retention Basin Sizing (Regenrückhalteraum)
+ *
+ * Simple method (einfaches Verfahren) for a throttled outflow, e.g. the
+ * 10 L/(s·ha) Drosselabflussspende set by the Berliner Wasserbetriebe.
+ */
+
+import type { Flaechenbilanz } from './din1986Engine';
+import { getRainIntensity, toRegenspende, type KostraRainfallTable } from './kostraProvider';
+
+// ============ Types ============
+
+export interface RetentionSizingOptions {
+    /** Permitted throttle rate q_dr in L/(s·ha), relative to the total catchment A_E */
+    throttleRate: number;
+    /** Design return period in years (default 5) */
+    returnPeriod?: number;
+    /** Zuschlagsfaktor f_Z (default 1.2) */
+    safetyFactor?: number;
+    /** Abminderungsfaktor f_A for flow time (default 1.0, no reduction) */
+    reductionFactor?: number;
+}
+
+export interface RetentionDurationStep {
+    /** Rain duration D in min */
+    duration: number;
+    /** Regenspende r(D,n) in L/(s·ha) */
+    rainfallRate: number;
+    /** Specific volume V_s,u in m³/ha */
+    specificVolume: number;
+}
+
+export interface RetentionSizingResult {
+    /** Throttle rate q_dr relative to A_E in L/(s·ha) */
+    throttleRate: number;
+    /** Throttle outflow Q_dr in L/s */
+    throttleOutflow: number;
+    /** Throttle rate relative to the impervious area q_dr,R,u in L/(s·ha) */
+    throttleRateImpervious: number;
+    /** Impervious catchment A_u = A_E·Ψm in m² */
+    imperviousArea: number;
+    /** Design return period in years */
+    returnPeriod: number;
+    /** Zuschlagsfaktor f_Z */
+    safetyFactor: number;
+    /** Abminderungsfaktor f_A */
+    reductionFactor: number;
+    /** Governing specific volume V_s,u in m³/ha */
+    specificVolume: number;
+    /** Required storage volume V in m³ */
+    requiredVolume: number;
+    /** Rain duration D in min that governs V */
+    governingDuration: number;
+    /** Emptying time at full throttle outflow in h */
+    emptyingTime: number;
+    /** Specific volume per tabulated duration */
+    steps: RetentionDurationStep[];
+}
+
+const DEFAULTS = {
+    returnPeriod: 5,
+    safetyFactor: 1.2,
+    reductionFactor: 1.0,
+};
+
+// ============ Sizing ============
+
+/**
+ * Size a retention basin per DWA-A 117 simple method
+ * V_s,u = (r(D,n) − q_dr,R,u)·D·f_Z·f_A·0.06, maximum over D
+ */
+export function sizeRetentionBasin(
+    catchment: Pick<Flaechenbilanz, 'gesamtflaeche' | 'psiM'>,
+    rainfall: KostraRainfallTable,
+    options: RetentionSizingOptions,
+): RetentionSizingResult {
+    const returnPeriod = options.returnPeriod ?? DEFAULTS.returnPeriod;
+    const safetyFactor = options.safetyFactor ?? DEFAULTS.safetyFactor;
+    const reductionFactor = options.reductionFactor ?? DEFAULTS.reductionFactor;
+
+    if (!(options.throttleRate > 0)) {
+        throw new Error('DWA-A 117: Drosselabflussspende muss größer als 0 sein');
+    }
+    const imperviousArea = catchment.gesamtflaeche * catchment.psiM;
+    if (imperviousArea <= 0) {
+        throw new Error('DWA-A 117: Undurchlässige Fläche A_u muss größer als 0 sein');
+    }
+
+    const throttleOutflow = options.throttleRate * catchment.gesamtflaeche / 10000;
+    const throttleRateImpervious = throttleOutflow / (imperviousArea / 10000);
+
+    const steps = rainfall.durations.map(duration => {
+        const rainfallRate = toRegenspende(getRainIntensity(rainfall, duration, returnPeriod));
+        return {
+            duration,
+            rainfallRate,
+            specificVolume: (rainfallRate - throttleRateImpervious) * duration * safetyFactor * reductionFactor * 0.06,
+        };
+    });
+    const governing = steps.reduce((best, step) => (step.specificVolume > best.specificVolume ? step : best));
+
+    const specificVolume = Math.max(0, governing.specificVolume);
+    const requiredVolume = specificVolume * imperviousArea / 10000;
+    const emptyingTime = requiredVolume * 1000 / throttleOutflow / 3600;
+
+    return {
+        throttleRate: options.throttleRate,
+        throttleOutflow,
+        throttleRateImpervious,
+        imperviousArea,
+        returnPeriod,
+        safetyFactor,
+        reductionFactor,
+        specificVolume,
+        requiredVolume,
+        governingDuration: governing.duration,
+        emptyingTime,
+        steps,
+    };
+}
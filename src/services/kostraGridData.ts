@@ -0,0 +1,209 @@
+/**
+ * Bundled Placeholder Grid in KOSTRA-DWD 2020 Format
+ *
+ * Illustrative Rasterfelder for the regions FloodPilot projects are currently
+ * located in (Berlin, Hamburg, München, Ruhrgebiet, Köln). Values are
+ * precipitation depths hN in mm per duration D (rows) and return period T
+ * (columns) of plausible regional magnitude, but they are NOT official
+ * KOSTRA-DWD-2020 values: depths, cell indices and bounds are placeholders
+ * (Berlin-Mitte reproduces the former hard-coded 175/220 mm/h table).
+ * Reports mark them as such.
+ *
+ * For a Nachweis, import the official KOSTRA-DWD-2020 grid published by the
+ * DWD Climate Data Center via importKostraGrid().
+ */
+
+import type { KostraGridFile } from './kostraProvider';
+
+export const BUNDLED_KOSTRA_GRID: KostraGridFile = {
+    version: 'KOSTRA-DWD-2020-Format (Platzhalter)',
+    placeholder: true,
+    durations: [5, 10, 15, 20, 30, 45, 60, 90, 120, 180, 240, 360, 540, 720, 1080, 1440],
+    returnPeriods: [1, 2, 3, 5, 10, 20, 30, 50, 100],
+    cells: [
+        {
+            id: '057104',
+            name: 'Berlin-Mitte',
+            bounds: { south: 52.490, west: 13.3400, north: 52.535, east: 13.4125 },
+            depths: [
+                [10.0, 13.1, 14.8, 17.2, 19.9, 23.2, 24.1, 26.8, 30.3], // D=5
+                [15.1, 19.7, 22.4, 25.9, 30.1, 35.0, 36.3, 40.5, 45.6], // D=10
+                [18.2, 23.8, 27.0, 31.2, 36.2, 42.1, 43.8, 48.8, 55.0], // D=15
+                [20.4, 26.6, 30.2, 35.0, 40.6, 47.2, 49.0, 54.6, 61.6], // D=20
+                [23.3, 30.4, 34.5, 40.0, 46.4, 53.9, 56.0, 62.4, 70.4], // D=30
+                [26.0, 34.0, 38.6, 44.7, 51.8, 60.3, 62.6, 69.7, 78.6], // D=45
+                [27.8, 36.3, 41.3, 47.8, 55.5, 64.5, 66.9, 74.6, 84.2], // D=60
+                [30.6, 39.9, 45.3, 52.5, 60.9, 70.8, 73.5, 81.9, 92.4], // D=90
+                [32.6, 42.5, 48.3, 55.9, 64.9, 75.4, 78.3, 87.3, 98.5], // D=120
+                [35.7, 46.5, 52.9, 61.2, 71.0, 82.6, 85.8, 95.5, 107.8], // D=180
+                [37.9, 49.4, 56.1, 65.0, 75.4, 87.6, 91.0, 101.4, 114.4], // D=240
+                [41.5, 54.1, 61.5, 71.2, 82.6, 96.1, 99.7, 111.1, 125.4], // D=360
+                [45.5, 59.4, 67.4, 78.1, 90.6, 105.3, 109.4, 121.9, 137.5], // D=540
+                [48.4, 63.2, 71.8, 83.1, 96.4, 112.1, 116.4, 129.7, 146.3], // D=720
+                [53.1, 69.3, 78.8, 91.2, 105.8, 123.0, 127.8, 142.3, 160.6], // D=1080
+                [56.8, 74.1, 84.2, 97.5, 113.1, 131.5, 136.5, 152.1, 171.6], // D=1440
+            ],
+        },
+        {
+            id: '057102',
+            name: 'Berlin-Spandau',
+            bounds: { south: 52.490, west: 13.1950, north: 52.535, east: 13.2675 },
+            depths: [
+                [9.7, 12.7, 14.4, 16.7, 19.3, 22.5, 23.3, 26.0, 29.3], // D=5
+                [14.7, 19.1, 21.7, 25.2, 29.2, 33.9, 35.2, 39.2, 44.3], // D=10
+                [17.7, 23.0, 26.2, 30.3, 35.2, 40.9, 42.4, 47.3, 53.4], // D=15
+                [19.8, 25.8, 29.3, 33.9, 39.4, 45.8, 47.5, 53.0, 59.8], // D=20
+                [22.6, 29.5, 33.5, 38.8, 45.0, 52.3, 54.3, 60.5, 68.3], // D=30
+                [25.2, 32.9, 37.4, 43.3, 50.3, 58.4, 60.7, 67.6, 76.3], // D=45
+                [27.0, 35.2, 40.0, 46.4, 53.8, 62.5, 64.9, 72.3, 81.6], // D=60
+                [29.7, 38.7, 44.0, 50.9, 59.1, 68.7, 71.3, 79.4, 89.6], // D=90
+                [31.6, 41.2, 46.8, 54.3, 62.9, 73.2, 76.0, 84.6, 95.5], // D=120
+                [34.6, 45.2, 51.3, 59.4, 68.9, 80.1, 83.2, 92.7, 104.6], // D=180
+                [36.7, 47.9, 54.4, 63.0, 73.1, 85.0, 88.3, 98.4, 111.0], // D=240
+                [40.3, 52.5, 59.7, 69.1, 80.2, 93.2, 96.8, 107.8, 121.6], // D=360
+                [44.1, 57.6, 65.4, 75.8, 87.9, 102.2, 106.1, 118.2, 133.4], // D=540
+                [47.0, 61.3, 69.6, 80.6, 93.5, 108.7, 112.9, 125.8, 141.9], // D=720
+                [51.5, 67.3, 76.4, 88.5, 102.7, 119.3, 123.9, 138.1, 155.8], // D=1080
+                [55.1, 71.9, 81.6, 94.6, 109.7, 127.5, 132.4, 147.5, 166.5], // D=1440
+            ],
+        },
+        {
+            id: '058104',
+            name: 'Berlin-Tempelhof',
+            bounds: { south: 52.445, west: 13.3400, north: 52.490, east: 13.4125 },
+            depths: [
+                [10.1, 13.2, 15.0, 17.4, 20.1, 23.4, 24.3, 27.1, 30.6], // D=5
+                [15.3, 19.9, 22.6, 26.2, 30.4, 35.3, 36.7, 40.9, 46.1], // D=10
+                [18.4, 24.0, 27.2, 31.6, 36.6, 42.6, 44.2, 49.2, 55.5], // D=15
+                [20.6, 26.9, 30.5, 35.4, 41.0, 47.7, 49.5, 55.1, 62.2], // D=20
+                [23.5, 30.7, 34.9, 40.4, 46.9, 54.5, 56.6, 63.0, 71.1], // D=30
+                [26.3, 34.3, 39.0, 45.1, 52.4, 60.9, 63.2, 70.4, 79.4], // D=45
+                [28.1, 36.7, 41.7, 48.3, 56.0, 65.1, 67.6, 75.3, 85.0], // D=60
+                [30.9, 40.3, 45.8, 53.0, 61.5, 71.5, 74.2, 82.7, 93.3], // D=90
+                [32.9, 42.9, 48.8, 56.5, 65.5, 76.2, 79.1, 88.1, 99.4], // D=120
+                [36.0, 47.0, 53.4, 61.9, 71.8, 83.4, 86.6, 96.5, 108.9], // D=180
+                [38.2, 49.9, 56.7, 65.7, 76.2, 88.5, 91.9, 102.4, 115.5], // D=240
+                [41.9, 54.7, 62.1, 72.0, 83.5, 97.0, 100.7, 112.3, 126.7], // D=360
+                [46.0, 60.0, 68.1, 78.9, 91.5, 106.4, 110.5, 123.1, 138.9], // D=540
+                [48.9, 63.8, 72.5, 84.0, 97.4, 113.2, 117.5, 131.0, 147.8], // D=720
+                [53.7, 70.0, 79.6, 92.2, 106.9, 124.3, 129.0, 143.8, 162.2], // D=1080
+                [57.4, 74.8, 85.0, 98.5, 114.2, 132.8, 137.9, 153.6, 173.3], // D=1440
+            ],
+        },
+        {
+            id: '034057',
+            name: 'Hamburg-Altstadt',
+            bounds: { south: 53.525, west: 9.9325, north: 53.570, east: 10.0050 },
+            depths: [
+                [9.0, 11.8, 13.4, 15.5, 17.9, 20.9, 21.7, 24.1, 27.2], // D=5
+                [13.6, 17.7, 20.2, 23.3, 27.1, 31.5, 32.7, 36.4, 41.1], // D=10
+                [16.4, 21.4, 24.3, 28.1, 32.6, 37.9, 39.4, 43.9, 49.5], // D=15
+                [18.3, 23.9, 27.2, 31.5, 36.5, 42.5, 44.1, 49.1, 55.4], // D=20
+                [21.0, 27.4, 31.1, 36.0, 41.8, 48.5, 50.4, 56.2, 63.4], // D=30
+                [23.4, 30.6, 34.7, 40.2, 46.7, 54.2, 56.3, 62.7, 70.8], // D=45
+                [25.1, 32.7, 37.1, 43.0, 49.9, 58.0, 60.2, 67.1, 75.7], // D=60
+                [27.5, 35.9, 40.8, 47.2, 54.8, 63.7, 66.2, 73.7, 83.2], // D=90
+                [29.3, 38.3, 43.5, 50.3, 58.4, 67.9, 70.5, 78.5, 88.6], // D=120
+                [32.1, 41.9, 47.6, 55.1, 63.9, 74.3, 77.2, 86.0, 97.0], // D=180
+                [34.1, 44.5, 50.5, 58.5, 67.9, 78.9, 81.9, 91.3, 103.0], // D=240
+                [37.3, 48.7, 55.4, 64.1, 74.4, 86.5, 89.8, 100.0, 112.9], // D=360
+                [41.0, 53.4, 60.7, 70.3, 81.6, 94.8, 98.4, 109.7, 123.8], // D=540
+                [43.6, 56.9, 64.6, 74.8, 86.8, 100.9, 104.7, 116.7, 131.7], // D=720
+                [47.8, 62.4, 70.9, 82.1, 95.3, 110.7, 115.0, 128.1, 144.5], // D=1080
+                [51.1, 66.7, 75.8, 87.8, 101.8, 118.3, 122.9, 136.9, 154.4], // D=1440
+            ],
+        },
+        {
+            id: '154079',
+            name: 'München-Altstadt',
+            bounds: { south: 48.125, west: 11.5275, north: 48.170, east: 11.6000 },
+            depths: [
+                [11.5, 15.0, 17.1, 19.8, 22.9, 26.7, 27.7, 30.8, 34.8], // D=5
+                [17.4, 22.7, 25.8, 29.8, 34.6, 40.2, 41.8, 46.5, 52.5], // D=10
+                [20.9, 27.3, 31.0, 35.9, 41.7, 48.5, 50.3, 56.1, 63.2], // D=15
+                [23.4, 30.6, 34.7, 40.2, 46.7, 54.3, 56.4, 62.8, 70.8], // D=20
+                [26.8, 35.0, 39.7, 46.0, 53.4, 62.0, 64.4, 71.8, 81.0], // D=30
+                [29.9, 39.1, 44.4, 51.4, 59.6, 69.3, 71.9, 80.2, 90.4], // D=45
+                [32.0, 41.8, 47.5, 55.0, 63.8, 74.1, 77.0, 85.8, 96.8], // D=60
+                [35.2, 45.9, 52.1, 60.4, 70.0, 81.4, 84.5, 94.2, 106.3], // D=90
+                [37.5, 48.9, 55.5, 64.3, 74.6, 86.7, 90.1, 100.4, 113.2], // D=120
+                [41.0, 53.5, 60.8, 70.4, 81.7, 95.0, 98.6, 109.9, 124.0], // D=180
+                [43.5, 56.8, 64.5, 74.8, 86.7, 100.8, 104.6, 116.6, 131.6], // D=240
+                [47.7, 62.3, 70.7, 81.9, 95.0, 110.5, 114.7, 127.8, 144.2], // D=360
+                [52.3, 68.3, 77.6, 89.8, 104.2, 121.1, 125.8, 140.2, 158.1], // D=540
+                [55.7, 72.7, 82.5, 95.6, 110.9, 128.9, 133.8, 149.1, 168.2], // D=720
+                [61.1, 79.8, 90.6, 104.9, 121.7, 141.5, 146.9, 163.7, 184.7], // D=1080
+                [65.3, 85.2, 96.8, 112.1, 130.1, 151.2, 157.0, 174.9, 197.3], // D=1440
+            ],
+        },
+        {
+            id: '080016',
+            name: 'Essen',
+            bounds: { south: 51.455, west: 6.9600, north: 51.500, east: 7.0325 },
+            depths: [
+                [10.3, 13.5, 15.3, 17.7, 20.5, 23.9, 24.8, 27.6, 31.2], // D=5
+                [15.6, 20.3, 23.1, 26.7, 31.0, 36.0, 37.4, 41.7, 47.0], // D=10
+                [18.7, 24.5, 27.8, 32.2, 37.3, 43.4, 45.1, 50.2, 56.6], // D=15
+                [21.0, 27.4, 31.1, 36.1, 41.8, 48.6, 50.5, 56.2, 63.4], // D=20
+                [24.0, 31.3, 35.6, 41.2, 47.8, 55.6, 57.7, 64.3, 72.5], // D=30
+                [26.8, 35.0, 39.7, 46.0, 53.4, 62.1, 64.4, 71.8, 81.0], // D=45
+                [28.7, 37.4, 42.5, 49.2, 57.1, 66.4, 68.9, 76.8, 86.7], // D=60
+                [31.5, 41.1, 46.7, 54.1, 62.7, 72.9, 75.7, 84.4, 95.2], // D=90
+                [33.6, 43.8, 49.7, 57.6, 66.8, 77.7, 80.7, 89.9, 101.4], // D=120
+                [36.7, 47.9, 54.5, 63.1, 73.2, 85.1, 88.3, 98.4, 111.0], // D=180
+                [39.0, 50.9, 57.8, 67.0, 77.7, 90.3, 93.7, 104.4, 117.8], // D=240
+                [42.7, 55.8, 63.4, 73.4, 85.1, 99.0, 102.7, 114.5, 129.2], // D=360
+                [46.9, 61.2, 69.5, 80.5, 93.3, 108.5, 112.7, 125.5, 141.6], // D=540
+                [49.9, 65.1, 73.9, 85.6, 99.3, 115.4, 119.9, 133.6, 150.7], // D=720
+                [54.7, 71.4, 81.1, 94.0, 109.0, 126.7, 131.6, 146.6, 165.4], // D=1080
+                [58.5, 76.3, 86.7, 100.4, 116.5, 135.4, 140.6, 156.7, 176.7], // D=1440
+            ],
+        },
+        {
+            id: '079023',
+            name: 'Dortmund',
+            bounds: { south: 51.500, west: 7.4675, north: 51.545, east: 7.5400 },
+            depths: [
+                [10.5, 13.7, 15.6, 18.0, 20.9, 24.3, 25.3, 28.2, 31.8], // D=5
+                [15.9, 20.7, 23.5, 27.2, 31.6, 36.7, 38.1, 42.5, 47.9], // D=10
+                [19.1, 24.9, 28.3, 32.8, 38.1, 44.2, 45.9, 51.2, 57.8], // D=15
+                [21.4, 27.9, 31.7, 36.8, 42.6, 49.6, 51.5, 57.3, 64.7], // D=20
+                [24.5, 31.9, 36.3, 42.0, 48.7, 56.6, 58.8, 65.5, 73.9], // D=30
+                [27.3, 35.7, 40.5, 46.9, 54.4, 63.3, 65.7, 73.2, 82.6], // D=45
+                [29.2, 38.2, 43.3, 50.2, 58.2, 67.7, 70.3, 78.3, 88.4], // D=60
+                [32.1, 41.9, 47.6, 55.1, 63.9, 74.3, 77.2, 86.0, 97.0], // D=90
+                [34.2, 44.6, 50.7, 58.7, 68.1, 79.2, 82.2, 91.6, 103.4], // D=120
+                [37.5, 48.9, 55.5, 64.3, 74.6, 86.7, 90.0, 100.3, 113.2], // D=180
+                [39.7, 51.9, 58.9, 68.2, 79.2, 92.0, 95.5, 106.5, 120.1], // D=240
+                [43.6, 56.9, 64.6, 74.8, 86.8, 100.9, 104.7, 116.7, 131.7], // D=360
+                [47.8, 62.3, 70.8, 82.0, 95.2, 110.6, 114.8, 128.0, 144.4], // D=540
+                [50.8, 66.3, 75.3, 87.3, 101.2, 117.7, 122.2, 136.2, 153.6], // D=720
+                [55.8, 72.8, 82.7, 95.8, 111.1, 129.2, 134.1, 149.5, 168.6], // D=1080
+                [59.6, 77.8, 88.4, 102.4, 118.8, 138.0, 143.3, 159.7, 180.2], // D=1440
+            ],
+        },
+        {
+            id: '092016',
+            name: 'Köln',
+            bounds: { south: 50.915, west: 6.9600, north: 50.960, east: 7.0325 },
+            depths: [
+                [9.5, 12.4, 14.1, 16.3, 18.9, 22.0, 22.9, 25.5, 28.7], // D=5
+                [14.4, 18.7, 21.3, 24.6, 28.6, 33.2, 34.5, 38.4, 43.4], // D=10
+                [17.3, 22.6, 25.6, 29.7, 34.4, 40.0, 41.6, 46.3, 52.2], // D=15
+                [19.4, 25.3, 28.7, 33.2, 38.6, 44.8, 46.6, 51.9, 58.5], // D=20
+                [22.1, 28.9, 32.8, 38.0, 44.1, 51.2, 53.2, 59.3, 66.9], // D=30
+                [24.7, 32.3, 36.6, 42.5, 49.2, 57.2, 59.4, 66.2, 74.7], // D=45
+                [26.5, 34.5, 39.2, 45.4, 52.7, 61.2, 63.6, 70.9, 79.9], // D=60
+                [29.0, 37.9, 43.1, 49.9, 57.9, 67.2, 69.8, 77.8, 87.8], // D=90
+                [30.9, 40.4, 45.9, 53.1, 61.6, 71.7, 74.4, 82.9, 93.5], // D=120
+                [33.9, 44.2, 50.2, 58.2, 67.5, 78.5, 81.5, 90.8, 102.4], // D=180
+                [36.0, 46.9, 53.3, 61.8, 71.6, 83.3, 86.5, 96.3, 108.7], // D=240
+                [39.4, 51.4, 58.4, 67.7, 78.5, 91.3, 94.8, 105.6, 119.1], // D=360
+                [43.2, 56.4, 64.1, 74.2, 86.1, 100.1, 103.9, 115.8, 130.6], // D=540
+                [46.0, 60.0, 68.2, 79.0, 91.6, 106.5, 110.6, 123.2, 139.0], // D=720
+                [50.5, 65.9, 74.8, 86.7, 100.6, 116.9, 121.4, 135.2, 152.6], // D=1080
+                [53.9, 70.4, 80.0, 92.6, 107.4, 124.9, 129.7, 144.5, 163.0], // D=1440
+            ],
+        },
+    ],
+};
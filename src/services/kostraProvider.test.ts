@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { BUNDLED_KOSTRA_GRID } from './kostraGridData';
+import {
+    clearImportedKostraGrid,
+    describeKostraSource,
+    importKostraGrid,
+    lookupKostraRainfall,
+} from './kostraProvider';
+
+describe('describeKostraSource', () => {
+    afterEach(() => clearImportedKostraGrid());
+
+    it('marks the bundled grid as placeholder values', () => {
+        const table = lookupKostraRainfall(52.52, 13.405);
+
+        expect(table.placeholder).toBe(true);
+        expect(describeKostraSource(table)).toMatch(/Platzhalterwerte, keine amtlichen KOSTRA-DWD-Daten/);
+    });
+
+    it('cites an imported grid without the placeholder note', () => {
+        importKostraGrid(JSON.stringify({ ...BUNDLED_KOSTRA_GRID, version: 'KOSTRA-DWD-2020', placeholder: undefined }));
+        const table = lookupKostraRainfall(52.52, 13.405);
+
+        expect(table.placeholder).toBe(false);
+        expect(describeKostraSource(table)).toBe('KOSTRA-DWD-2020, Rasterfeld 057104 (Berlin-Mitte) — importiertes Raster');
+    });
+});
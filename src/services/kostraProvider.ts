@@ -0,0 +1,255 @@
+/**
+ * KOSTRA-DWD Rainfall Provider
+ *
+ * Resolves site coordinates to a KOSTRA-DWD 2020 Rasterfeld and returns its
+ * full duration × return-period table. Grids come from the bundled placeholder
+ * grid or from a user-imported grid file; imported grids take precedence.
+ */
+
+import { BUNDLED_KOSTRA_GRID } from './kostraGridData';
+
+// ============ Types ============
+
+export interface KostraCellBounds {
+    south: number;
+    west: number;
+    north: number;
+    east: number;
+}
+
+export interface KostraCell {
+    /** Rasterfeld index (INDEX_RC) */
+    id: string;
+    /** Optional human-readable location */
+    name?: string;
+    /** Cell extent in WGS84 degrees */
+    bounds: KostraCellBounds;
+    /** Precipitation depths hN in mm, indexed [duration][returnPeriod] */
+    depths: number[][];
+}
+
+export interface KostraGridFile {
+    /** Data version, e.g. 'KOSTRA-DWD-2020' */
+    version: string;
+    /** True for illustrative values that are not official DWD data */
+    placeholder?: boolean;
+    /** Durations D in min */
+    durations: number[];
+    /** Return periods T in years */
+    returnPeriods: number[];
+    cells: KostraCell[];
+}
+
+export interface KostraRainfallTable {
+    /** Rasterfeld index used */
+    cellId: string;
+    /** Human-readable cell location, if known */
+    cellName?: string;
+    /** Data version of the grid */
+    dataVersion: string;
+    /** Whether the cell came from the bundled placeholder grid or an imported grid */
+    source: 'bundled' | 'imported';
+    /** True for illustrative values that are not official DWD data */
+    placeholder: boolean;
+    /** True if the site lies inside the cell, false if the nearest cell was used */
+    exactMatch: boolean;
+    /** Distance from site to cell centre in km */
+    distanceKm: number;
+    /** Durations D in min */
+    durations: number[];
+    /** Return periods T in years */
+    returnPeriods: number[];
+    /** Precipitation depths hN in mm, indexed [duration][returnPeriod] */
+    depths: number[][];
+}
+
+// ============ Grid Registry ============
+
+/** Maximum distance for falling back to the nearest cell */
+const MAX_NEAREST_CELL_DISTANCE_KM = 25;
+
+let importedGrid: KostraGridFile | null = null;
+
+/**
+ * Parse, validate and register a user-supplied KOSTRA grid file (JSON)
+ */
+export function importKostraGrid(json: string): KostraGridFile {
+    const grid = JSON.parse(json) as KostraGridFile;
+    validateGrid(grid);
+    importedGrid = grid;
+    return grid;
+}
+
+/**
+ * Drop a previously imported grid and use the bundled placeholder grid only
+ */
+export function clearImportedKostraGrid(): void {
+    importedGrid = null;
+}
+
+export function getImportedKostraGrid(): KostraGridFile | null {
+    return importedGrid;
+}
+
+function validateGrid(grid: KostraGridFile): void {
+    if (!grid || typeof grid.version !== 'string') {
+        throw new Error('KOSTRA-Raster: Datenversion fehlt');
+    }
+    if (!Array.isArray(grid.durations) || !Array.isArray(grid.returnPeriods) || !Array.isArray(grid.cells)) {
+        throw new Error('KOSTRA-Raster: durations, returnPeriods und cells sind erforderlich');
+    }
+    for (const cell of grid.cells) {
+        if (!cell.id || !cell.bounds || !Array.isArray(cell.depths)) {
+            throw new Error(`KOSTRA-Raster: Rasterfeld ${cell.id ?? '?'} unvollständig`);
+        }
+        if (cell.depths.length !== grid.durations.length
+            || cell.depths.some(row => row.length !== grid.returnPeriods.length)) {
+            throw new Error(`KOSTRA-Raster: Tabellengröße von Rasterfeld ${cell.id} passt nicht zu D × T`);
+        }
+    }
+}
+
+// ============ Lookup ============
+
+/**
+ * Find the KOSTRA-DWD cell for a site and return its rainfall table
+ */
+export function lookupKostraRainfall(latitude: number, longitude: number): KostraRainfallTable {
+    const sources: [KostraGridFile, KostraRainfallTable['source']][] = importedGrid
+        ? [[importedGrid, 'imported'], [BUNDLED_KOSTRA_GRID, 'bundled']]
+        : [[BUNDLED_KOSTRA_GRID, 'bundled']];
+
+    for (const [grid, source] of sources) {
+        const cell = grid.cells.find(c => containsPoint(c.bounds, latitude, longitude));
+        if (cell) return buildTable(grid, cell, source, true, latitude, longitude);
+    }
+
+    const nearest = findNearestCell(sources, latitude, longitude);
+    if (nearest && nearest.distanceKm <= MAX_NEAREST_CELL_DISTANCE_KM) {
+        return buildTable(nearest.grid, nearest.cell, nearest.source, false, latitude, longitude);
+    }
+
+    throw new Error(
+        `Keine KOSTRA-DWD-Daten für Standort ${latitude.toFixed(4)}, ${longitude.toFixed(4)}. ` +
+        'Bitte das KOSTRA-Raster für diese Region importieren.'
+    );
+}
+
+function containsPoint(bounds: KostraCellBounds, lat: number, lon: number): boolean {
+    return lat >= bounds.south && lat < bounds.north && lon >= bounds.west && lon < bounds.east;
+}
+
+function cellCentre(bounds: KostraCellBounds): { lat: number; lon: number } {
+    return { lat: (bounds.south + bounds.north) / 2, lon: (bounds.west + bounds.east) / 2 };
+}
+
+function findNearestCell(
+    sources: [KostraGridFile, KostraRainfallTable['source']][],
+    lat: number,
+    lon: number,
+): { grid: KostraGridFile; cell: KostraCell; source: KostraRainfallTable['source']; distanceKm: number } | null {
+    let best: ReturnType<typeof findNearestCell> = null;
+    for (const [grid, source] of sources) {
+        for (const cell of grid.cells) {
+            const centre = cellCentre(cell.bounds);
+            const distanceKm = haversineKm(lat, lon, centre.lat, centre.lon);
+            if (!best || distanceKm < best.distanceKm) best = { grid, cell, source, distanceKm };
+        }
+    }
+    return best;
+}
+
+function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const toRad = (deg: number) => deg * Math.PI / 180;
+    const dLat = toRad(lat2 - lat1);
+    const dLon = toRad(lon2 - lon1);
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+    return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function buildTable(
+    grid: KostraGridFile,
+    cell: KostraCell,
+    source: KostraRainfallTable['source'],
+    exactMatch: boolean,
+    lat: number,
+    lon: number,
+): KostraRainfallTable {
+    const centre = cellCentre(cell.bounds);
+    return {
+        cellId: cell.id,
+        cellName: cell.name,
+        dataVersion: grid.version,
+        source,
+        placeholder: grid.placeholder === true,
+        exactMatch,
+        distanceKm: haversineKm(lat, lon, centre.lat, centre.lon),
+        durations: [...grid.durations],
+        returnPeriods: [...grid.returnPeriods],
+        depths: cell.depths.map(row => [...row]),
+    };
+}
+
+// ============ Table Access ============
+
+/**
+ * Precipitation depth hN(D, T) in mm
+ * Interpolates log-log between tabulated durations and log-linear between return periods.
+ */
+export function getRainDepth(table: KostraRainfallTable, durationMin: number, returnPeriod: number): number {
+    const [d0, d1, wd] = bracket(table.durations, durationMin, Math.log);
+    const [t0, t1, wt] = bracket(table.returnPeriods, returnPeriod, Math.log);
+
+    const depthAt = (di: number) => {
+        const row = table.depths[di];
+        return row[t0] + (row[t1] - row[t0]) * wt;
+    };
+
+    const h0 = depthAt(d0);
+    const h1 = depthAt(d1);
+    if (h0 <= 0 || h1 <= 0) return h0 + (h1 - h0) * wd;
+    return Math.exp(Math.log(h0) + (Math.log(h1) - Math.log(h0)) * wd);
+}
+
+/**
+ * Mean rainfall intensity for duration D and return period T in mm/hr
+ */
+export function getRainIntensity(table: KostraRainfallTable, durationMin: number, returnPeriod: number): number {
+    return getRainDepth(table, durationMin, returnPeriod) / durationMin * 60;
+}
+
+/**
+ * Convert rainfall intensity from mm/hr to Regenspende in L/(s·ha)
+ */
+export function toRegenspende(intensity_mm_hr: number): number {
+    // 1 mm/hr on 1 ha = 10 000 L/hr
+    return intensity_mm_hr * 10000 / 3600;
+}
+
+/**
+ * Locate value within an ascending axis; returns lower index, upper index and weight.
+ * Values outside the axis are clamped to the end points.
+ */
+function bracket(axis: number[], value: number, transform: (v: number) => number): [number, number, number] {
+    if (value <= axis[0]) return [0, 0, 0];
+    const last = axis.length - 1;
+    if (value >= axis[last]) return [last, last, 0];
+
+    let i = 0;
+    while (axis[i + 1] < value) i++;
+    const weight = (transform(value) - transform(axis[i])) / (transform(axis[i + 1]) - transform(axis[i]));
+    return [i, i + 1, weight];
+}
+
+/**
+ * Short citation of the rainfall data source for reports
+ */
+export function describeKostraSource(table: KostraRainfallTable): string {
+    const location = table.cellName ? ` (${table.cellName})` : '';
+    const origin = table.source === 'imported' ? 'importiertes Raster' : 'mitgeliefertes Raster';
+    const match = table.exactMatch ? '' : `, nächstgelegenes Rasterfeld in ${table.distanceKm.toFixed(1)} km`;
+    const placeholder = table.placeholder
+        ? '. Platzhalterwerte, keine amtlichen KOSTRA-DWD-Daten — für den Nachweis amtliches Raster importieren'
+        : '';
+    return `${table.dataVersion}, Rasterfeld ${table.cellId}${location} — ${origin}${match}${placeholder}`;
+}
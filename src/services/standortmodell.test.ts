@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseMessreiheCsv, passeStandortmodellAn, standortBeobachtungen } from './standortmodell';
+import type { DIN1986Input } from './din1986Engine';
+import { disposeModel } from '../ml/modelRegistry';
+
+const INPUT: DIN1986Input = {
+    projectName: 'Test',
+    grundstuecksflaeche: 2500,
+    versiegelteFlaeche: 1400,
+    bodenart: 'SU',
+    gelaendeneigung: 0,
+    manningN: 0.015,
+    fliesslaenge: 50,
+    drosselabfluss: 50,
+    verfuegbaresRueckhaltevolumen: 80,
+    latitude: 52.52,
+    longitude: 13.405,
+};
+
+const MESSWERTE = [
+    { zeit: 0, regen: 60, abfluss: 0 },
+    { zeit: 10, regen: 60, abfluss: 5 },
+    { zeit: 20, regen: 0, abfluss: 12 },
+];
+
+describe('parseMessreiheCsv', () => {
+    it('reads comma separated values with the columns in any order', () => {
+        const csv = 'abfluss,zeit,regen\n0,0,60\n5,10,60\n12,20,0\n';
+        expect(parseMessreiheCsv(csv)).toEqual(MESSWERTE);
+    });
+
+    it('reads semicolon separated values with decimal commas and unit headers', () => {
+        const csv = 'Zeit [min];Regen (mm/h);Abfluss (L/s)\r\n0;60,5;0\r\n10;60;5,25\r\n20;0;12\r\n';
+        expect(parseMessreiheCsv(csv)).toEqual([
+            { zeit: 0, regen: 60.5, abfluss: 0 },
+            { zeit: 10, regen: 60, abfluss: 5.25 },
+            { zeit: 20, regen: 0, abfluss: 12 },
+        ]);
+    });
+
+    it('reads tab separated values', () => {
+        const csv = 'time\trainfall\tdischarge\n0\t60\t0\n10\t60\t5\n20\t0\t12';
+        expect(parseMessreiheCsv(csv)).toEqual(MESSWERTE);
+    });
+
+    it('rejects a missing column', () => {
+        expect(() => parseMessreiheCsv('zeit,regen\n0,60\n10,60\n20,0')).toThrow(/Spalte 'abfluss' fehlt/);
+    });
+
+    it('rejects times that are not ascending', () => {
+        expect(() => parseMessreiheCsv('zeit,regen,abfluss\n0,60,0\n20,60,5\n10,0,12')).toThrow(/aufsteigend/);
+    });
+
+    it('rejects invalid rows and too short series', () => {
+        expect(() => parseMessreiheCsv('zeit,regen,abfluss\n0,60,0\n10,x,5\n20,0,12')).toThrow(/Zeile 3/);
+        expect(() => parseMessreiheCsv('zeit,regen,abfluss\n0,60,0\n10,60,5')).toThrow(/mindestens 3/);
+    });
+});
+
+describe('standortBeobachtungen', () => {
+    it('assigns the mean intensity since the start and clamps flat sites', () => {
+        const beobachtungen = standortBeobachtungen(INPUT, MESSWERTE);
+
+        expect(beobachtungen.map(b => b.input.rainfall)).toEqual([60, 60, 60]);
+        expect(beobachtungen.map(b => b.input.t)).toEqual([0, 10, 20]);
+        expect(beobachtungen[0].input.slope).toBe(0.001);
+        expect(beobachtungen[0].input.width).toBe(50);
+    });
+});
+
+describe('passeStandortmodellAn', () => {
+    afterEach(() => {
+        disposeModel();
+        vi.unstubAllGlobals();
+    });
+
+    it('refuses fine-tuning without a trained base model', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 404 })));
+
+        await expect(passeStandortmodellAn(INPUT, MESSWERTE)).rejects.toThrow(/kein trainiertes PINN-Basismodell/);
+    });
+});
@@ -0,0 +1,155 @@
+/**
+ * Standortmodell — PINN fine-tuning to site gauge data
+ *
+ * Reads observed rainfall–discharge time series (CSV), maps them to PINN
+ * observations at the outlet of the project plane, fine-tunes the shipped
+ * model to those inside its training envelope and stores the result per project in IndexedDB. Later
+ * assessments of the project use the stored model.
+ */
+
+import {
+    computeFlaechenbilanz,
+    einzugsbreite,
+    gefaelle,
+    standortSchluessel,
+    type AssessmentOptions,
+    type DIN1986Input,
+} from './din1986Engine';
+import { fineTunePINN, DEFAULT_FINE_TUNING_OPTIONS, type PINNObservation } from '../ml/pinnFineTuning';
+import { loadBaseModel, setSiteModel } from '../ml/modelRegistry';
+import { saveSiteModel, type SiteModelInfo } from '../ml/siteModelStore';
+
+export interface Messwert {
+    zeit: number;     // Time since start of the series (min)
+    regen: number;    // Rainfall intensity (mm/hr)
+    abfluss: number;  // Measured discharge (L/s)
+}
+
+/** Accepted column names — the first word of the header, case-insensitive */
+const SPALTEN: Record<keyof Messwert, string[]> = {
+    zeit: ['zeit', 'time', 't'],
+    regen: ['regen', 'niederschlag', 'rainfall', 'r'],
+    abfluss: ['abfluss', 'discharge', 'q'],
+};
+
+const MIN_MESSWERTE = 3;
+
+// ============ CSV Import ============
+
+/**
+ * Parse a gauge time series
+ *
+ * Expects a header row with the columns zeit (min), regen (mm/h) and abfluss (L/s)
+ * in any order. Separator ',' ';' or tab; with ';' a decimal comma is accepted.
+ */
+export function parseMessreiheCsv(text: string): Messwert[] {
+    const zeilen = text.split(/\r?\n/).map(z => z.trim()).filter(z => z.length > 0);
+    if (zeilen.length === 0) throw new Error('Messreihe: Datei ist leer');
+
+    const trenner = zeilen[0].includes(';') ? ';' : zeilen[0].includes('\t') ? '\t' : ',';
+    // "Zeit [min]", "regen_mm_h", "Abfluss (L/s)" → zeit, regen, abfluss
+    const kopf = zeilen[0].split(trenner).map(k => k.trim().toLowerCase().replace(/^"/, '').split(/[^a-zäöüß]/)[0]);
+    const index = (Object.keys(SPALTEN) as (keyof Messwert)[]).map(spalte => {
+        const i = kopf.findIndex(k => SPALTEN[spalte].includes(k));
+        if (i < 0) throw new Error(`Messreihe: Spalte '${spalte}' fehlt (erwartet: zeit, regen, abfluss)`);
+        return i;
+    });
+    const zahl = (feld = '') => Number((trenner === ';' ? feld.replace(',', '.') : feld).trim());
+
+    const messwerte = zeilen.slice(1).map((zeile, n) => {
+        const felder = zeile.split(trenner);
+        const [zeit, regen, abfluss] = index.map(i => zahl(felder[i]));
+        if (![zeit, regen, abfluss].every(Number.isFinite) || regen < 0 || abfluss < 0) {
+            throw new Error(`Messreihe: Zeile ${n + 2} ungültig: ${zeile}`);
+        }
+        return { zeit, regen, abfluss };
+    });
+
+    if (messwerte.length < MIN_MESSWERTE) {
+        throw new Error(`Messreihe: mindestens ${MIN_MESSWERTE} Messwerte erforderlich`);
+    }
+    if (messwerte.some((m, i) => i > 0 && m.zeit <= messwerte[i - 1].zeit)) {
+        throw new Error('Messreihe: Zeitwerte müssen aufsteigend sein');
+    }
+    return messwerte;
+}
+
+// ============ Fine-Tuning ============
+
+/**
+ * PINN observations at the outlet of the project plane
+ *
+ * The network describes sustained rain; each measurement is assigned the mean
+ * intensity since the start of the series, which yields the same rain depth
+ * (and so the same rising-limb depth q·t) as the observed hyetograph.
+ */
+export function standortBeobachtungen(input: DIN1986Input, messwerte: Messwert[]): PINNObservation[] {
+    const breite = einzugsbreite(computeFlaechenbilanz(input).gesamtflaeche);
+    if (!(breite > 0)) throw new Error('Standortmodell: Grundstücksfläche muss größer als 0 m² sein');
+    const start = messwerte[0].zeit;
+    let regenhoehe = 0;
+
+    return messwerte.map((m, i) => {
+        if (i > 0) regenhoehe += messwerte[i - 1].regen * (m.zeit - messwerte[i - 1].zeit) / 60;
+        const t = m.zeit - start;
+        return {
+            input: {
+                x: input.fliesslaenge,
+                t,
+                rainfall: t > 0 ? regenhoehe / (t / 60) : m.regen,
+                slope: gefaelle(input),
+                manningN: input.manningN,
+                width: breite,
+            },
+            discharge: m.abfluss,
+        };
+    });
+}
+
+/**
+ * Fine-tune the shipped PINN to the site measurements of a project
+ * The adapted model is stored under the project with its own manifest and
+ * used right away. Refused without a trained base model or with fewer than
+ * two measurements inside its training envelope; the others are dropped and
+ * counted. The latest measurements are held out and score the model before
+ * and after.
+ */
+export async function passeStandortmodellAn(
+    input: DIN1986Input,
+    messwerte: Messwert[],
+    options: AssessmentOptions = {},
+): Promise<SiteModelInfo> {
+    const { onProgress, signal } = options;
+    const beobachtungen = standortBeobachtungen(input, messwerte);
+
+    onProgress?.('Basismodell laden', 0);
+    const basis = await loadBaseModel();
+    if (!basis) throw new Error('Standortmodell: kein trainiertes PINN-Basismodell verfügbar');
+    const { model, manifest } = basis;
+    try {
+        const ergebnis = await fineTunePINN(model, manifest, beobachtungen, {
+            signal,
+            onEpochEnd: epoch => {
+                if (epoch % 10 === 0) onProgress?.('Feinabstimmung', 0.1 + 0.8 * epoch / DEFAULT_FINE_TUNING_OPTIONS.epochs);
+            },
+        });
+
+        const info: SiteModelInfo = {
+            project: standortSchluessel(input),
+            baseVersion: manifest.modelVersion,
+            createdAt: new Date().toISOString(),
+            observations: ergebnis.observations,
+            heldOut: ergebnis.heldOut,
+            dropped: ergebnis.dropped,
+            before: ergebnis.before,
+            after: ergebnis.after,
+        };
+        onProgress?.('Modell speichern', 0.9);
+        await saveSiteModel(model, info, ergebnis.manifest);
+        setSiteModel(model, ergebnis.manifest, info);
+        return info;
+    } catch (error) {
+        model.dispose();
+        throw error;
+    }
+}
@@ -0,0 +1,243 @@
+/**
+ * DWA-A 138 Infiltration Sizing
+ * Volume balance for swales (Mulden), trenches (Rigolen) and swale-trench systems
+ * over all rain durations of the site rainfall table.
+ */
+
+import { getRainIntensity, toRegenspende, type KostraRainfallTable } from '../services/kostraProvider';
+
+export type InfiltrationSystemType = 'mulde' | 'rigole' | 'mulden_rigole';
+
+export interface InfiltrationSizingParams {
+    type: InfiltrationSystemType;
+    /** Connected impervious area A_u in m² */
+    connectedArea: number;
+    /** Design permeability of the subsoil in m/s */
+    kf: number;
+    /** Site rainfall table */
+    rainfall: KostraRainfallTable;
+    /** Design return period in years (default 5 a, n = 0.2/a) */
+    returnPeriod?: number;
+    /** Zuschlagsfaktor f_Z (default 1.2) */
+    safetyFactor?: number;
+    /** Maximum swale water depth in m (default 0.3) */
+    maxDepth?: number;
+    /** Trench width b in m (default 1.0) */
+    trenchWidth?: number;
+    /** Trench height h in m (default 0.8) */
+    trenchHeight?: number;
+    /** Storage coefficient s_R of the trench fill (default 0.35 gravel) */
+    porosity?: number;
+    /** Permeability of the swale topsoil passage in m/s (default 1·10⁻⁵) */
+    topsoilKf?: number;
+}
+
+export interface InfiltrationSizingResult {
+    type: InfiltrationSystemType;
+    /** Required surface area in m² (swale area A_s or trench footprint b·L) */
+    requiredArea: number;
+    /** Swale water depth or trench height in m */
+    depth: number;
+    /** Trench length L in m (0 for swales) */
+    length: number;
+    /** Required storage volume in m³ */
+    volume: number;
+    /** Emptying time in hours */
+    emptyingTime: number;
+    /** Whether the emptying time stays within 24 h */
+    emptyingTimeOk: boolean;
+    /** Rain duration D in min that governs the size */
+    governingDuration: number;
+}
+
+const DEFAULTS = {
+    returnPeriod: 5,
+    safetyFactor: 1.2,
+    maxDepth: 0.3,
+    trenchWidth: 1.0,
+    trenchHeight: 0.8,
+    porosity: 0.35,
+    topsoilKf: 1e-5,
+};
+
+const MAX_EMPTYING_TIME_H = 24;
+const MAX_ITERATIONS = 100;
+
+/**
+ * Size an infiltration system per DWA-A 138
+ */
+export function sizeInfiltrationSystem(params: InfiltrationSizingParams): InfiltrationSizingResult {
+    switch (params.type) {
+        case 'mulde': return sizeSwale(params);
+        case 'rigole': return sizeTrench(params);
+        case 'mulden_rigole': return sizeSwaleTrench(params);
+    }
+}
+
+/**
+ * Regenspende r(D,n) in L/(s·ha) for each tabulated duration
+ */
+function rainSeries(params: InfiltrationSizingParams): { duration: number; r: number }[] {
+    const returnPeriod = params.returnPeriod ?? DEFAULTS.returnPeriod;
+    return params.rainfall.durations.map(duration => ({
+        duration,
+        r: toRegenspende(getRainIntensity(params.rainfall, duration, returnPeriod)),
+    }));
+}
+
+/**
+ * Swale volume for a given swale area, maximum over D
+ * V = [(A_u + A_s)·10⁻⁷·r(D,n) − A_s·kf/2]·D·60·f_Z
+ */
+function swaleVolume(
+    series: { duration: number; r: number }[],
+    connectedArea: number,
+    swaleArea: number,
+    kf: number,
+    safetyFactor: number,
+): { volume: number; duration: number } {
+    let best = { volume: -Infinity, duration: series[0].duration };
+    for (const { duration, r } of series) {
+        const inflow = (connectedArea + swaleArea) * 1e-7 * r;
+        const infiltration = swaleArea * kf / 2;
+        const volume = (inflow - infiltration) * duration * 60 * safetyFactor;
+        if (volume > best.volume) best = { volume, duration };
+    }
+    return { volume: Math.max(0, best.volume), duration: best.duration };
+}
+
+/**
+ * Iterate the swale area until the water depth equals the permitted depth
+ */
+function sizeSwaleArea(
+    series: { duration: number; r: number }[],
+    connectedArea: number,
+    kf: number,
+    maxDepth: number,
+    safetyFactor: number,
+): { area: number; volume: number; duration: number } {
+    let area = 0.1 * connectedArea;
+    let balance = swaleVolume(series, connectedArea, area, kf, safetyFactor);
+
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+        const nextArea = balance.volume / maxDepth;
+        if (Math.abs(nextArea - area) < 0.01) break;
+        area = 0.5 * (area + nextArea);
+        balance = swaleVolume(series, connectedArea, area, kf, safetyFactor);
+    }
+
+    return { area, volume: balance.volume, duration: balance.duration };
+}
+
+function sizeSwale(params: InfiltrationSizingParams): InfiltrationSizingResult {
+    const maxDepth = params.maxDepth ?? DEFAULTS.maxDepth;
+    const safetyFactor = params.safetyFactor ?? DEFAULTS.safetyFactor;
+    const swale = sizeSwaleArea(rainSeries(params), params.connectedArea, params.kf, maxDepth, safetyFactor);
+    const depth = swale.area > 0 ? swale.volume / swale.area : 0;
+    // t_E = 2·z / kf
+    const emptyingTime = 2 * depth / params.kf / 3600;
+
+    return {
+        type: 'mulde',
+        requiredArea: swale.area,
+        depth,
+        length: 0,
+        volume: swale.volume,
+        emptyingTime,
+        emptyingTimeOk: emptyingTime <= MAX_EMPTYING_TIME_H,
+        governingDuration: swale.duration,
+    };
+}
+
+/**
+ * Trench length for an inflow series, maximum over D
+ * L = Q_zu / (b·h·s_R / (D·60·f_Z) + (b + h/2)·kf/2)
+ */
+function trenchLength(
+    inflows: { duration: number; inflow: number }[],
+    width: number,
+    height: number,
+    porosity: number,
+    kf: number,
+    safetyFactor: number,
+): { length: number; duration: number } {
+    let best = { length: 0, duration: inflows[0].duration };
+    for (const { duration, inflow } of inflows) {
+        const storage = width * height * porosity / (duration * 60 * safetyFactor);
+        const infiltration = (width + height / 2) * kf / 2;
+        const length = inflow / (storage + infiltration);
+        if (length > best.length) best = { length, duration };
+    }
+    return best;
+}
+
+function trenchEmptyingTime(width: number, height: number, porosity: number, kf: number): number {
+    // Stored volume per metre over infiltration rate per metre
+    return (width * height * porosity) / ((width + height / 2) * kf / 2) / 3600;
+}
+
+function sizeTrench(params: InfiltrationSizingParams): InfiltrationSizingResult {
+    const width = params.trenchWidth ?? DEFAULTS.trenchWidth;
+    const height = params.trenchHeight ?? DEFAULTS.trenchHeight;
+    const porosity = params.porosity ?? DEFAULTS.porosity;
+    const safetyFactor = params.safetyFactor ?? DEFAULTS.safetyFactor;
+
+    const inflows = rainSeries(params).map(({ duration, r }) => ({
+        duration,
+        inflow: params.connectedArea * 1e-7 * r,
+    }));
+    const trench = trenchLength(inflows, width, height, porosity, params.kf, safetyFactor);
+    const emptyingTime = trenchEmptyingTime(width, height, porosity, params.kf);
+
+    return {
+        type: 'rigole',
+        requiredArea: width * trench.length,
+        depth: height,
+        length: trench.length,
+        volume: width * height * porosity * trench.length,
+        emptyingTime,
+        emptyingTimeOk: emptyingTime <= MAX_EMPTYING_TIME_H,
+        governingDuration: trench.duration,
+    };
+}
+
+/**
+ * Swale on top of a trench: the swale drains through the topsoil into the
+ * trench, which infiltrates into the subsoil.
+ */
+function sizeSwaleTrench(params: InfiltrationSizingParams): InfiltrationSizingResult {
+    const maxDepth = params.maxDepth ?? DEFAULTS.maxDepth;
+    const safetyFactor = params.safetyFactor ?? DEFAULTS.safetyFactor;
+    const topsoilKf = params.topsoilKf ?? DEFAULTS.topsoilKf;
+    const width = params.trenchWidth ?? DEFAULTS.trenchWidth;
+    const height = params.trenchHeight ?? DEFAULTS.trenchHeight;
+    const porosity = params.porosity ?? DEFAULTS.porosity;
+
+    const series = rainSeries(params);
+    const swale = sizeSwaleArea(series, params.connectedArea, topsoilKf, maxDepth, safetyFactor);
+    const swaleDepth = swale.area > 0 ? swale.volume / swale.area : 0;
+
+    // Trench inflow is the topsoil seepage, limited by the rain reaching the swale
+    const inflows = series.map(({ duration, r }) => ({
+        duration,
+        inflow: Math.min(swale.area * topsoilKf, (params.connectedArea + swale.area) * 1e-7 * r),
+    }));
+    const trench = trenchLength(inflows, width, height, porosity, params.kf, safetyFactor);
+    const trenchVolume = width * height * porosity * trench.length;
+
+    const emptyingTime = Math.max(
+        2 * swaleDepth / topsoilKf / 3600,
+        trenchEmptyingTime(width, height, porosity, params.kf),
+    );
+
+    return {
+        type: 'mulden_rigole',
+        requiredArea: swale.area,
+        depth: swaleDepth,
+        length: trench.length,
+        volume: swale.volume + trenchVolume,
+        emptyingTime,
+        emptyingTimeOk: emptyingTime <= MAX_EMPTYING_TIME_H,
+        governingDuration: swale.duration,
+    };
+}
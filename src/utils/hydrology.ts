@@ -80,6 +80,29 @@ export function computeWQv(
     return depth_mm * area_m2 * coeff;
 }
 
+/**
+ * Storage volume needed to hold back a hydrograph behind a constant outflow
+ * Formula: V = ∫ max(0, Q(t) − Q_out) dt (trapezoidal rule)
+ *
+ * @param time_min - Sample times in minutes (ascending)
+ * @param discharge_Ls - Inflow Q(t) in L/s at each sample
+ * @param outflow_Ls - Throttle outflow in L/s (0 = total runoff volume)
+ * @returns Storage volume in m³
+ */
+export function computeHydrographStorage(
+    time_min: number[],
+    discharge_Ls: number[],
+    outflow_Ls: number = 0
+): number {
+    let volume_L = 0;
+    for (let i = 1; i < time_min.length; i++) {
+        const excess0 = Math.max(0, discharge_Ls[i - 1] - outflow_Ls);
+        const excess1 = Math.max(0, discharge_Ls[i] - outflow_Ls);
+        volume_L += (excess0 + excess1) / 2 * (time_min[i] - time_min[i - 1]) * 60;
+    }
+    return volume_L / 1000;
+}
+
 /**
  * Size a rain garden based on required storage volume
  * 
@@ -0,0 +1,87 @@
+/**
+ * Design Hyetographs
+ * Time-varying model rains (DVWK Euler Typ I / II, block rain) built from a
+ * KOSTRA-style intensity-duration table for one return period and duration.
+ */
+
+import { getRainDepth, type KostraRainfallTable } from '../services/kostraProvider';
+
+export interface Hyetograph {
+    interval: number;     // Block length Δt (min)
+    intensity: number[];  // Rainfall intensity per block (mm/hr)
+}
+
+export type HyetographType = 'euler2' | 'euler1' | 'block';
+
+export interface DesignStorm extends Hyetograph {
+    type: HyetographType;
+    duration: number;     // Total rain duration D (min)
+    returnPeriod: number; // Return period T (years)
+    time: number[];       // Block start times (min)
+    depth: number[];      // Rainfall depth per block (mm)
+    totalDepth: number;   // hN(D,T) (mm)
+}
+
+/** Rain durations offered for model rains (min) */
+export const DESIGN_STORM_DURATIONS = [30, 60, 90, 120, 180, 240, 360];
+
+export const HYETOGRAPH_LABELS: Record<HyetographType, string> = {
+    euler2: 'Euler Typ II',
+    euler1: 'Euler Typ I',
+    block: 'Blockregen',
+};
+
+/**
+ * Build a design storm from the rainfall table
+ *
+ * Block depths are the increments of the depth-duration curve hN(k·Δt).
+ * Euler Typ I starts with the largest block; Euler Typ II puts it after the
+ * first third of the storm, preceded by the smallest increments in ascending order.
+ *
+ * @param table - Rainfall table (depths in mm)
+ * @param type - Model rain type
+ * @param duration - Rain duration D in min
+ * @param returnPeriod - Return period T in years
+ * @param interval - Block length Δt in min (default 5)
+ */
+export function buildDesignStorm(
+    table: KostraRainfallTable,
+    type: HyetographType,
+    duration: number,
+    returnPeriod: number,
+    interval: number = 5
+): DesignStorm {
+    const blocks = Math.max(1, Math.round(duration / interval));
+    const totalDepth = getRainDepth(table, blocks * interval, returnPeriod);
+
+    let depth: number[];
+    if (type === 'block') {
+        depth = new Array(blocks).fill(totalDepth / blocks);
+    } else {
+        // Increments of the depth-duration curve, largest first
+        const increments = Array.from({ length: blocks }, (_, k) => {
+            const upper = getRainDepth(table, (k + 1) * interval, returnPeriod);
+            const lower = k > 0 ? getRainDepth(table, k * interval, returnPeriod) : 0;
+            return Math.max(0, upper - lower);
+        }).sort((a, b) => b - a);
+
+        if (type === 'euler1') {
+            depth = increments;
+        } else {
+            const peak = Math.floor(blocks / 3);
+            const leading = increments.slice(blocks - peak).reverse();
+            depth = [...leading, ...increments.slice(0, blocks - peak)];
+        }
+    }
+
+    return {
+        type,
+        duration: blocks * interval,
+        returnPeriod,
+        interval,
+        time: depth.map((_, k) => k * interval),
+        depth,
+        intensity: depth.map(d => d / interval * 60),
+        totalDepth,
+    };
+}
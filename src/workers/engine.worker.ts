@@ -0,0 +1,62 @@
+/**
+ * Engine Worker
+ *
+ * Runs TF.js model loading, PINN inference, site fine-tuning and the
+ * DIN 1986-100 assessment off the main thread. Jobs can be cancelled; cancellation takes effect at the
+ * next step or chunk boundary.
+ */
+
+import { performDIN1986AssessmentAsync } from '../services/din1986Engine';
+import { runPINNBatch } from '../ml/pinnInference';
+import { passeStandortmodellAn } from '../services/standortmodell';
+import type { EngineRequest, EngineResponse, RunRequest } from './engineProtocol';
+
+const controllers = new Map<number, AbortController>();
+
+function post(message: EngineResponse, transfer: Transferable[] = []): void {
+    self.postMessage(message, { transfer });
+}
+
+self.addEventListener('message', (event: MessageEvent<EngineRequest>) => {
+    const request = event.data;
+    if (request.type === 'cancel') {
+        controllers.get(request.id)?.abort();
+        return;
+    }
+    void runJob(request);
+});
+
+async function runJob(request: RunRequest): Promise<void> {
+    const { id } = request;
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    const onProgress = (step: string, fraction: number) => post({ type: 'progress', id, step, fraction });
+
+    try {
+        if (request.job === 'assess') {
+            const result = await performDIN1986AssessmentAsync(request.input, { onProgress, signal: controller.signal });
+            post({ type: 'result', id, job: 'assess', result });
+        } else if (request.job === 'finetune') {
+            const { projekt, messwerte } = request.input;
+            const result = await passeStandortmodellAn(projekt, messwerte, { onProgress, signal: controller.signal });
+            post({ type: 'result', id, job: 'finetune', result });
+        } else {
+            const result = await runPINNBatch(request.input, {
+                onProgress: (done, total) => onProgress('PINN-Inferenz', done / total),
+                signal: controller.signal,
+            });
+            post(
+                { type: 'result', id, job: 'batch', result },
+                [result.discharge.buffer, result.depth.buffer, result.velocity.buffer, result.outOfDistribution.buffer],
+            );
+        }
+    } catch (error) {
+        if (controller.signal.aborted) {
+            post({ type: 'cancelled', id });
+        } else {
+            post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+        }
+    } finally {
+        controllers.delete(id);
+    }
+}
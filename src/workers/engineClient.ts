@@ -0,0 +1,153 @@
+/**
+ * Engine Worker Client
+ *
+ * Main-thread side of the engine worker: starts jobs, forwards progress and
+ * resolves one promise per job. Falls back to running on the main thread
+ * where Web Workers are unavailable.
+ */
+
+import { performDIN1986AssessmentAsync, type DIN1986Input } from '../services/din1986Engine';
+import { lookupKostraRainfall } from '../services/kostraProvider';
+import { passeStandortmodellAn, type Messwert } from '../services/standortmodell';
+import { runPINNBatch, type PINNGridSpec } from '../ml/pinnInference';
+import type { PINNInput } from '../ml/pinnModel';
+import type { EngineJobs, EngineJobType, EngineResponse, RunRequest } from './engineProtocol';
+
+export type ProgressCallback = (step: string, fraction: number) => void;
+
+export interface EngineJob<T> {
+    promise: Promise<T>;
+    /** Cancel the job — the promise rejects with an AbortError */
+    cancel: () => void;
+}
+
+interface PendingJob {
+    resolve: (result: never) => void;
+    reject: (error: unknown) => void;
+    onProgress?: ProgressCallback;
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingJob>();
+
+function abortError(): DOMException {
+    return new DOMException('Berechnung abgebrochen', 'AbortError');
+}
+
+/**
+ * Whether an error stems from a cancelled job
+ */
+export function isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function getWorker(): Worker {
+    if (worker) return worker;
+    worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event: MessageEvent<EngineResponse>) => handleResponse(event.data));
+    worker.addEventListener('error', event => {
+        // A crashed worker fails every job in flight; the next job starts a fresh one
+        for (const job of pending.values()) job.reject(new Error(`Engine-Worker fehlgeschlagen: ${event.message}`));
+        pending.clear();
+        worker?.terminate();
+        worker = null;
+    });
+    return worker;
+}
+
+function handleResponse(message: EngineResponse): void {
+    const job = pending.get(message.id);
+    if (!job) return;
+
+    switch (message.type) {
+        case 'progress':
+            job.onProgress?.(message.step, message.fraction);
+            return;
+        case 'result':
+            job.resolve(message.result as never);
+            break;
+        case 'error':
+            job.reject(new Error(message.message));
+            break;
+        case 'cancelled':
+            job.reject(abortError());
+            break;
+    }
+    pending.delete(message.id);
+}
+
+function startJob<K extends EngineJobType>(
+    job: K,
+    input: EngineJobs[K]['input'],
+    onProgress?: ProgressCallback,
+): EngineJob<EngineJobs[K]['result']> {
+    if (typeof Worker === 'undefined') return runOnMainThread(job, input, onProgress);
+
+    const id = nextId++;
+    const promise = new Promise<EngineJobs[K]['result']>((resolve, reject) => {
+        pending.set(id, { resolve, reject, onProgress });
+    });
+    getWorker().postMessage({ type: 'run', id, job, input } as RunRequest);
+
+    return {
+        promise,
+        cancel: () => worker?.postMessage({ type: 'cancel', id }),
+    };
+}
+
+function runOnMainThread<K extends EngineJobType>(
+    job: K,
+    input: EngineJobs[K]['input'],
+    onProgress?: ProgressCallback,
+): EngineJob<EngineJobs[K]['result']> {
+    const controller = new AbortController();
+    const { signal } = controller;
+    let run: Promise<unknown>;
+    if (job === 'assess') {
+        run = performDIN1986AssessmentAsync(input as DIN1986Input, { onProgress, signal });
+    } else if (job === 'finetune') {
+        const { projekt, messwerte } = input as EngineJobs['finetune']['input'];
+        run = passeStandortmodellAn(projekt, messwerte, { onProgress, signal });
+    } else {
+        run = runPINNBatch(input as PINNInput[] | PINNGridSpec, {
+            onProgress: (done, total) => onProgress?.('PINN-Inferenz', done / total),
+            signal,
+        });
+    }
+
+    return {
+        promise: (run as Promise<EngineJobs[K]['result']>).catch(error => {
+            throw signal.aborted ? abortError() : error;
+        }),
+        cancel: () => controller.abort(),
+    };
+}
+
+/**
+ * Run the DIN 1986-100 assessment (with PINN) in the engine worker
+ * The rainfall table is resolved here, as imported KOSTRA grids are registered on the main thread.
+ */
+export function runAssessmentJob(input: DIN1986Input, onProgress?: ProgressCallback): EngineJob<EngineJobs['assess']['result']> {
+    const niederschlag = input.niederschlag ?? lookupKostraRainfall(input.latitude, input.longitude);
+    return startJob('assess', { ...input, niederschlag }, onProgress);
+}
+
+/**
+ * Fine-tune the PINN to site measurements of the project in the engine worker
+ * The stored model is used by later assessments of the project.
+ */
+export function runFineTuningJob(
+    projekt: DIN1986Input,
+    messwerte: Messwert[],
+    onProgress?: ProgressCallback,
+): EngineJob<EngineJobs['finetune']['result']> {
+    return startJob('finetune', { projekt, messwerte }, onProgress);
+}
+
+/**
+ * Run batched PINN inference in the engine worker
+ */
+export function runBatchJob(inputs: PINNInput[] | PINNGridSpec, onProgress?: ProgressCallback): EngineJob<EngineJobs['batch']['result']> {
+    return startJob('batch', inputs, onProgress);
+}
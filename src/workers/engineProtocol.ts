@@ -0,0 +1,36 @@
+/**
+ * Engine Worker Message Protocol
+ *
+ * Typed messages between the page and the engine worker. Each job carries an
+ * id; the worker answers with any number of progress messages followed by
+ * exactly one result, error or cancelled message for that id.
+ */
+
+import type { DIN1986Input, DIN1986Result } from '../services/din1986Engine';
+import type { PINNBatchOutput, PINNGridSpec } from '../ml/pinnInference';
+import type { PINNInput } from '../ml/pinnModel';
+import type { SiteModelInfo } from '../ml/siteModelStore';
+import type { Messwert } from '../services/standortmodell';
+
+/** Input and result type per job */
+export interface EngineJobs {
+    assess: { input: DIN1986Input; result: DIN1986Result };
+    batch: { input: PINNInput[] | PINNGridSpec; result: PINNBatchOutput };
+    finetune: { input: { projekt: DIN1986Input; messwerte: Messwert[] }; result: SiteModelInfo };
+}
+
+export type EngineJobType = keyof EngineJobs;
+
+export type RunRequest = {
+    [K in EngineJobType]: { type: 'run'; id: number; job: K; input: EngineJobs[K]['input'] };
+}[EngineJobType];
+
+export type EngineRequest =
+    | RunRequest
+    | { type: 'cancel'; id: number };
+
+export type EngineResponse =
+    | { type: 'progress'; id: number; step: string; fraction: number }
+    | { [K in EngineJobType]: { type: 'result'; id: number; job: K; result: EngineJobs[K]['result'] } }[EngineJobType]
+    | { type: 'error'; id: number; message: string }
+    | { type: 'cancelled'; id: number };